@@ -1,54 +1,227 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { TrackCard } from "@/components/TrackCard";
-import { analyzeLoudness } from "@/lib/audioAnalysis";
+import { AbxPanel } from "@/components/AbxPanel";
+import { LoudnessGraph, type LoudnessGraphMode, type LoudnessGraphSeries } from "@/components/LoudnessGraph";
+import { MarkerPanel } from "@/components/MarkerPanel";
+import { NullReport } from "@/components/NullReport";
+import { PlatformPanel } from "@/components/PlatformPanel";
+import { SessionPanel } from "@/components/SessionPanel";
+import { SwitchControls } from "@/components/SwitchControls";
+import { SpectrumPanel, type SpectrumRange, type SpectrumSeries } from "@/components/SpectrumPanel";
+import { TrackCard, type LoadingStage } from "@/components/TrackCard";
+import { Waveform, type WaveformLayer, type WaveformMarker } from "@/components/Waveform";
+import {
+  DEFAULT_ABX_TRIALS,
+  answerAbxTrial,
+  buildAbxLog,
+  createAbxSession,
+  resolveAbxSource,
+  type AbxLabel,
+  type AbxSession,
+  type AbxSource
+} from "@/lib/abx";
+import {
+  AnalysisSupersededError,
+  analyzeLoudness,
+  analyzeSpectrum,
+  cancelAnalysis,
+  detectAlignment,
+  measureNullResidual,
+  measureRegionLoudness
+} from "@/lib/audioAnalysis";
+import { channelLayoutOptions, detectChannelLayout, type ChannelLayoutId } from "@/lib/channelLayouts";
+import { decodeAudioFile } from "@/lib/decodeAudioFile";
+import { downloadBlob, downloadJson } from "@/lib/download";
+import { audioFilesFrom, hasDraggedFiles } from "@/lib/fileDrop";
 import { formatTime } from "@/lib/formatTime";
-import { computeLoudnessOffsets, offsetToGain } from "@/lib/loudnessMatch";
-
-type TrackId = "A" | "B";
+import { DEFAULT_OVER_THRESHOLD_DB } from "@/lib/levelEvents";
+import { computeLoudnessCurves, type LoudnessCurves } from "@/lib/loudnessCurves";
+import {
+  BOOST_CEILING_DBTP,
+  MATCH_TARGETS_LUFS,
+  computeLoudnessOffsets,
+  computeOffsetsToTarget,
+  describeMatchStrategy,
+  matchStrategyKey,
+  offsetToGain,
+  parseMatchStrategy,
+  type MatchStrategy
+} from "@/lib/loudnessMatch";
+import { buildMarkerExport, createMarker, parseMarkerImport, sortMarkers, type Marker } from "@/lib/markers";
+import { MONITOR_MODES, createMonitorChain, type MonitorChain, type MonitorMode } from "@/lib/monitoring";
+import type { NullTestResult } from "@/lib/nullTest";
+import type { PcmFormat } from "@/lib/pcmDecoder";
+import {
+  PLATFORM_PROFILES,
+  computePlatformGain,
+  describePlatformWarning,
+  findPlatformProfile
+} from "@/lib/platformProfiles";
+import { createPlaybackEngine, type PlaybackEngine } from "@/lib/playbackEngine";
+import { buildReportCsv, buildReportHtml, type ComparisonReport } from "@/lib/report";
+import {
+  deleteSession,
+  estimateStorage,
+  listSessions,
+  loadSession,
+  saveSession,
+  type SessionSummary,
+  type StorageUsage
+} from "@/lib/sessionStore";
+import {
+  DEFAULT_SWITCH_SETTINGS,
+  scheduleGainChange,
+  secondsToNextBoundary,
+  type SwitchSettings
+} from "@/lib/switching";
+import type {
+  AlignmentEnvelope,
+  LevelEvent,
+  LoudnessSteps,
+  OctaveSmoothing,
+  SpectrumCurve,
+  WaveformPeaks
+} from "@/lib/loudnessTypes";
+
+type TrackId = string;
 
 interface TrackState {
   id: TrackId;
   name: string | null;
   duration: number | null;
   sampleRate: number | null;
+  /** Native format from the in-house decoder; null for browser-decoded files. */
+  format: PcmFormat | null;
+  channelCount: number | null;
+  /** Speaker layout the loudness channel weights come from. */
+  channelLayout: ChannelLayoutId | null;
   size: number | null;
   loading: boolean;
+  loadingStage: LoadingStage | null;
+  /** 0–1 while analyzing; null when the stage can't report progress. */
+  loadingProgress: number | null;
   error: string | null;
   volume: number;
   loudnessTrimDb: number;
   hasBuffer: boolean;
   lufsIntegrated: number | null;
   peakDb: number | null;
+  truePeakDb: number | null;
+  truePeakChannelsDb: (number | null)[];
+  truePeakTime: number | null;
+  momentaryMaxLufs: number | null;
+  shortTermMaxLufs: number | null;
+  loudnessRange: number | null;
+  rmsDb: number | null;
+  aWeightedDb: number | null;
+  clipCount: number;
+  overCount: number;
+  levelEvents: LevelEvent[];
+  polarityInverted: boolean;
+  alignmentOffset: number | null;
+  alignmentConfidence: number | null;
+  alignmentNudge: number;
 }
 
 const DEFAULT_GLOBAL_VOLUME = 0.9;
 const DEFAULT_FINE_ADJUST = 1;
 const LOUDNESS_CAP_DB = 12;
+const TRACK_SLOT_IDS = ["A", "B", "C", "D", "E", "F", "G", "H"];
+const MIN_TRACKS = 2;
+const MAX_ALIGNMENT_NUDGE_SECONDS = 5;
+const TRACK_COLORS = ["#22d3ee", "#f472b6", "#a3e635", "#fbbf24", "#c084fc", "#fb923c", "#34d399", "#60a5fa"];
+const WAVEFORM_ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64];
+const MIN_LOOP_SECONDS = 0.05;
+const OVER_THRESHOLDS_DB = [0, -0.1, -0.3, -0.5, -1, -1.5, -2];
+const DEFAULT_LOOP_SECONDS = 4;
 
 const initialTrackState = (id: TrackId): TrackState => ({
   id,
   name: null,
   duration: null,
   sampleRate: null,
+  format: null,
+  channelCount: null,
+  channelLayout: null,
   size: null,
   loading: false,
+  loadingStage: null,
+  loadingProgress: null,
   error: null,
   volume: DEFAULT_FINE_ADJUST,
   loudnessTrimDb: 0,
   hasBuffer: false,
   lufsIntegrated: null,
-  peakDb: null
+  peakDb: null,
+  truePeakDb: null,
+  truePeakChannelsDb: [],
+  truePeakTime: null,
+  momentaryMaxLufs: null,
+  shortTermMaxLufs: null,
+  loudnessRange: null,
+  rmsDb: null,
+  aWeightedDb: null,
+  clipCount: 0,
+  overCount: 0,
+  levelEvents: [],
+  polarityInverted: false,
+  alignmentOffset: null,
+  alignmentConfidence: null,
+  alignmentNudge: 0
 });
-const TRACK_KEYS: Record<TrackId, string> = {
-  A: "KeyA",
-  B: "KeyB"
+
+interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+// Level a track enters the offline null test with, polarity included, as it plays in null mode.
+const nullGain = (track: TrackState) =>
+  (track.polarityInverted ? -1 : 1) * track.volume * offsetToGain(track.loudnessTrimDb);
+
+// Seconds to shift a track's buffer so its content lines up with the reference.
+const alignmentShift = (track: TrackState) => (track.alignmentOffset ?? 0) + track.alignmentNudge;
+
+interface SessionSnapshot {
+  tracks: Record<TrackId, TrackState>;
+  globalVolume: number;
+  activeTrack: TrackId;
+  playhead: number;
+  loopRegion: LoopRegion | null;
+  loopEnabled: boolean;
+  matchStrategy: MatchStrategy;
+  appliedMatch: MatchStrategy | null;
+  monitorMode: MonitorMode;
+  switchSettings: SwitchSettings;
+  /** Missing from sessions saved before markers existed. */
+  markers?: Marker[];
+  overThresholdDb?: number;
+}
+
+const TRACK_KEYS: Record<string, TrackId> = {
+  KeyA: "A",
+  KeyB: "B"
+};
+
+const trackLabel = (id: TrackId) => `Track ${id}`;
+
+const trackColor = (id: TrackId) =>
+  TRACK_COLORS[Math.max(0, TRACK_SLOT_IDS.indexOf(id)) % TRACK_COLORS.length];
+
+const compareTrackIds = (a: TrackId, b: TrackId) =>
+  TRACK_SLOT_IDS.indexOf(a) - TRACK_SLOT_IDS.indexOf(b);
+
+// Digit1…Digit9 focus the n-th slot in display order.
+const slotIndexForKey = (code: string): number | null => {
+  const match = /^(?:Digit|Numpad)([1-9])$/.exec(code);
+  return match ? Number(match[1]) - 1 : null;
 };
 
-const TRACK_LABEL: Record<TrackId, string> = {
-  A: "Track A",
-  B: "Track B"
+const ABX_KEYS: Record<string, AbxSource> = {
+  KeyA: "A",
+  KeyB: "B",
+  KeyX: "X"
 };
 
 export default function HomePage() {
@@ -57,254 +230,399 @@ export default function HomePage() {
     B: initialTrackState("B")
   });
   const [globalVolume, setGlobalVolume] = useState(DEFAULT_GLOBAL_VOLUME);
+  const [overThresholdDb, setOverThresholdDb] = useState(DEFAULT_OVER_THRESHOLD_DB);
   const [activeTrack, setActiveTrack] = useState<TrackId>("A");
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [computedOffsets, setComputedOffsets] = useState<Record<TrackId, number>>({
-    A: 0,
-    B: 0
-  });
-
-  useEffect(() => {
-    const offsets = computeLoudnessOffsets(
-      {
-        A: tracks.A.lufsIntegrated,
-        B: tracks.B.lufsIntegrated
-      },
-      LOUDNESS_CAP_DB
-    ) as Record<TrackId, number>;
-    setComputedOffsets(offsets);
-  }, [tracks.A.lufsIntegrated, tracks.B.lufsIntegrated]);
+  const [abxSession, setAbxSession] = useState<AbxSession | null>(null);
+  const [abxListening, setAbxListening] = useState<AbxSource | null>(null);
+  const [abxTrialCount, setAbxTrialCount] = useState(DEFAULT_ABX_TRIALS);
+  const [abxPair, setAbxPair] = useState<[TrackId, TrackId]>(["A", "B"]);
+  const [waveforms, setWaveforms] = useState<Record<TrackId, WaveformPeaks | null>>({});
+  const [waveformZoom, setWaveformZoom] = useState(1);
+  const [loudnessCurves, setLoudnessCurves] = useState<Record<TrackId, LoudnessCurves | null>>({});
+  const [loudnessGraphMode, setLoudnessGraphMode] = useState<LoudnessGraphMode>("shortTerm");
+  const [loudnessGraphApplyTrims, setLoudnessGraphApplyTrims] = useState(false);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [matchStrategy, setMatchStrategy] = useState<MatchStrategy>({ kind: "quietest" });
+  const [appliedMatch, setAppliedMatch] = useState<MatchStrategy | null>(null);
+  const [spectra, setSpectra] = useState<Record<TrackId, SpectrumCurve | null>>({});
+  const [spectrumRange, setSpectrumRange] = useState<SpectrumRange>("file");
+  const [spectrumSmoothing, setSpectrumSmoothing] = useState<OctaveSmoothing>(3);
+  const [spectrumApplyTrims, setSpectrumApplyTrims] = useState(true);
+  const [spectrumBusy, setSpectrumBusy] = useState(false);
+  const [spectrumPair, setSpectrumPair] = useState<[TrackId, TrackId]>(["A", "B"]);
+  const [nullMode, setNullMode] = useState(false);
+  const [monitorMode, setMonitorMode] = useState<MonitorMode>("stereo");
+  const [switchSettings, setSwitchSettings] = useState<SwitchSettings>(DEFAULT_SWITCH_SETTINGS);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [sessionBusy, setSessionBusy] = useState(false);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const [markerError, setMarkerError] = useState<string | null>(null);
+  const [nullReport, setNullReport] = useState<{
+    pairKey: string;
+    result: NullTestResult | null;
+    error: string | null;
+    busy: boolean;
+  } | null>(null);
+  const activeLoop = useMemo(
+    () =>
+      loopEnabled && loopRegion && loopRegion.end - loopRegion.start >= MIN_LOOP_SECONDS ? loopRegion : null,
+    [loopEnabled, loopRegion]
+  );
+  const isBlind = abxSession !== null && abxSession.completedAt === null;
 
-  const handleLoudnessMatch = useCallback(() => {
-    if (tracks.A.lufsIntegrated === null || tracks.B.lufsIntegrated === null) {
-      return;
-    }
+  const trackIds = useMemo(() => Object.keys(tracks).sort(compareTrackIds), [tracks]);
+  const loadedTrackIds = useMemo(
+    () => trackIds.filter((id) => tracks[id].hasBuffer),
+    [trackIds, tracks]
+  );
+  // Null mode plays the focused track against the first other loaded track.
+  const nullPartner = loadedTrackIds.find((id) => id !== activeTrack) ?? null;
+  const nullActive = nullMode && !isBlind && nullPartner !== null;
+  const measuredTrackCount = trackIds.filter((id) => tracks[id].lufsIntegrated !== null).length;
+
+  const matchReady =
+    matchStrategy.kind === "target" || matchStrategy.kind === "platform"
+      ? measuredTrackCount >= 1
+      : matchStrategy.kind === "reference"
+        ? measuredTrackCount >= 2 && tracks[matchStrategy.trackId]?.lufsIntegrated != null
+        : matchStrategy.kind === "loop"
+          ? loadedTrackIds.length >= 2 && loopRegion !== null
+          : measuredTrackCount >= 2;
+
+  const computeMatchOffsets = useCallback(
+    (strategy: MatchStrategy): Record<TrackId, number> => {
+      const levels: Record<TrackId, number | null> = {};
+      const truePeaks: Record<TrackId, number | null> = {};
+      trackIds.forEach((id) => {
+        const track = tracks[id];
+        truePeaks[id] = track.truePeakDb;
+        if (strategy.kind === "rms") {
+          levels[id] = track.rmsDb;
+        } else if (strategy.kind === "aWeighted") {
+          levels[id] = track.aWeightedDb;
+        } else if (strategy.kind === "loop") {
+          // Measure each track over the same musical passage, not the same buffer time.
+          const steps = stepsRef.current[id];
+          const shift = alignmentShift(track);
+          levels[id] =
+            steps && loopRegion ? measureRegionLoudness(steps, loopRegion.start + shift, loopRegion.end + shift) : null;
+        } else {
+          levels[id] = track.lufsIntegrated;
+        }
+      });
 
-    setTracks((prev) => {
-      const updated: Record<TrackId, TrackState> = {
-        ...prev
-      };
+      if (strategy.kind === "platform") {
+        const profile = findPlatformProfile(strategy.profileId);
+        return Object.fromEntries(
+          trackIds.map((id) => {
+            const gain = profile ? computePlatformGain(tracks[id], profile) : null;
+            return [id, gain ? -gain.previewGainDb : 0];
+          })
+        );
+      }
+      if (strategy.kind === "target") {
+        return computeOffsetsToTarget(levels, strategy.targetLufs, truePeaks, LOUDNESS_CAP_DB);
+      }
+      if (strategy.kind === "reference") {
+        const reference = levels[strategy.trackId];
+        return reference == null
+          ? computeLoudnessOffsets({}, LOUDNESS_CAP_DB)
+          : computeOffsetsToTarget(levels, reference, truePeaks, LOUDNESS_CAP_DB);
+      }
+      return computeLoudnessOffsets(levels, LOUDNESS_CAP_DB);
+    },
+    [loopRegion, trackIds, tracks]
+  );
 
-      (Object.keys(prev) as TrackId[]).forEach((id) => {
-        const offset = computedOffsets[id] ?? 0;
-        updated[id] = {
-          ...prev[id],
-          loudnessTrimDb: offset,
-          volume: DEFAULT_FINE_ADJUST
+  const applyMatch = useCallback(
+    (strategy: MatchStrategy) => {
+      const offsets = computeMatchOffsets(strategy);
+      setAppliedMatch(strategy);
+      setTracks((prev) => {
+        const updated: Record<TrackId, TrackState> = {
+          ...prev
         };
+
+        (Object.keys(prev) as TrackId[]).forEach((id) => {
+          const offset = offsets[id] ?? 0;
+          updated[id] = {
+            ...prev[id],
+            loudnessTrimDb: offset,
+            volume: DEFAULT_FINE_ADJUST
+          };
+        });
+
+        return updated;
       });
+    },
+    [computeMatchOffsets]
+  );
 
-      return updated;
-    });
-  }, [computedOffsets, tracks.A.lufsIntegrated, tracks.B.lufsIntegrated]);
+  const handleLoudnessMatch = useCallback(() => {
+    if (matchReady) {
+      applyMatch(matchStrategy);
+    }
+  }, [applyMatch, matchReady, matchStrategy]);
+
+  const handlePlatformPreview = useCallback(
+    (profileId: string) => {
+      const strategy: MatchStrategy = { kind: "platform", profileId };
+      setMatchStrategy(strategy);
+      applyMatch(strategy);
+    },
+    [applyMatch]
+  );
+
+  const platformWarning = (track: TrackState) => {
+    const profile = appliedMatch?.kind === "platform" ? findPlatformProfile(appliedMatch.profileId) : null;
+    const gain = profile ? computePlatformGain(track, profile) : null;
+    return gain ? describePlatformWarning(gain) : null;
+  };
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const buffersRef = useRef<Record<TrackId, AudioBuffer | null>>({
-    A: null,
-    B: null
-  });
-  const sourcesRef = useRef<Record<TrackId, AudioBufferSourceNode | null>>({
-    A: null,
-    B: null
-  });
-  const gainsRef = useRef<Record<TrackId, GainNode | null>>({
-    A: null,
-    B: null
-  });
-  const startTimeRef = useRef<number | null>(null);
-  const pausedAtRef = useRef<number>(0);
-  const rafRef = useRef<number | null>(null);
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const buffersRef = useRef<Record<TrackId, AudioBuffer | null>>({});
+  const envelopesRef = useRef<Record<TrackId, AlignmentEnvelope | null>>({});
+  const stepsRef = useRef<Record<TrackId, LoudnessSteps | null>>({});
+  const filesRef = useRef<Record<TrackId, File | null>>({});
+  const loadIdsRef = useRef<Record<TrackId, number>>({});
+  // Read by loads already in flight, so a threshold change mid-load still applies.
+  const overThresholdRef = useRef(overThresholdDb);
   const playbackDurationRef = useRef<number>(0);
+  const activeLoopRef = useRef<LoopRegion | null>(null);
+  const monitorRef = useRef<MonitorChain | null>(null);
+  const monitorModeRef = useRef<MonitorMode>(monitorMode);
+  // Last target scheduled on each track's gain, so unrelated track updates don't restart a pending switch.
+  const gainTargetsRef = useRef(new WeakMap<AudioParam, number>());
 
   const ensureAudioContext = useCallback(() => {
     if (typeof window === "undefined") return null;
     if (!audioContextRef.current) {
       audioContextRef.current = new AudioContext();
+      // All tracks share one monitoring bus that outlives individual sources.
+      monitorRef.current = createMonitorChain(
+        audioContextRef.current,
+        audioContextRef.current.destination,
+        monitorModeRef.current
+      );
+      const engine = createPlaybackEngine(audioContextRef.current, monitorRef.current.input);
+      engine.setLoop(activeLoopRef.current);
+      engine.onPosition(setCurrentTime);
+      engine.onEnded(() => setIsPlaying(false));
+      engineRef.current = engine;
     }
 
     return audioContextRef.current;
   }, []);
 
-  const teardownNodes = useCallback(() => {
-    (Object.keys(sourcesRef.current) as TrackId[]).forEach((id) => {
-      const source = sourcesRef.current[id];
-      if (source) {
-        try {
-          source.onended = null;
-          source.stop();
-        } catch (error) {
-          console.warn("Source stop warning", error);
-        }
-        try {
-          source.disconnect();
-        } catch (error) {
-          console.warn("Source disconnect warning", error);
-        }
-      }
-      sourcesRef.current[id] = null;
-    });
+  const setTrackBuffer = useCallback((trackId: TrackId, buffer: AudioBuffer | null) => {
+    buffersRef.current[trackId] = buffer;
+    engineRef.current?.setBuffer(trackId, buffer);
+  }, []);
 
-    (Object.keys(gainsRef.current) as TrackId[]).forEach((id) => {
-      const gainNode = gainsRef.current[id];
-      if (gainNode) {
-        try {
-          gainNode.disconnect();
-        } catch (error) {
-          console.warn("Gain disconnect warning", error);
-        }
-      }
-      gainsRef.current[id] = null;
-    });
+  const stopPlayback = useCallback(() => {
+    engineRef.current?.pause();
+    setIsPlaying(false);
   }, []);
 
-  const stopPlayback = useCallback(
-    (preserveOffset: boolean, durationOverride?: number) => {
-      teardownNodes();
-      const audioCtx = audioContextRef.current;
-      const duration = durationOverride ?? playbackDurationRef.current;
-
-      if (preserveOffset) {
-        const elapsed = audioCtx && startTimeRef.current !== null
-          ? audioCtx.currentTime - startTimeRef.current
-          : pausedAtRef.current;
-        const clamped = Math.max(0, Math.min(elapsed, duration || elapsed));
-        pausedAtRef.current = clamped;
-        setCurrentTime(clamped);
-      } else {
-        pausedAtRef.current = 0;
-        setCurrentTime(0);
-      }
+  const trackGain = useCallback(
+    (trackId: TrackId, fineVolume: number, trimDb: number) => {
+      const polarity = tracks[trackId]?.polarityInverted ? -1 : 1;
+      const totalGain = polarity * globalVolume * fineVolume * offsetToGain(trimDb ?? 0);
+      if (trackId === activeTrack) return totalGain;
+      // Summing with an inverted copy of the partner leaves only what differs.
+      return nullActive && trackId === nullPartner ? -totalGain : 0;
+    },
+    [activeTrack, globalVolume, nullActive, nullPartner, tracks]
+  );
 
-      if (rafRef.current) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
+  // Context time of the next focus switch: now, or the next beat/bar boundary while playing.
+  const switchTime = useCallback(
+    (audioCtx: AudioContext) => {
+      const now = audioCtx.currentTime;
+      const { style, bpm } = switchSettings;
+      const engine = engineRef.current;
+      if (!engine?.isPlaying() || (style !== "beat" && style !== "bar")) return now;
+
+      const loop = activeLoopRef.current;
+      const position = engine.position();
+      let wait = secondsToNextBoundary(position, bpm, style);
+      if (loop && position + wait > loop.end) {
+        wait = loop.end - position;
       }
-
-      startTimeRef.current = null;
-      setIsPlaying(false);
+      return now + wait;
     },
-    [teardownNodes]
+    [switchSettings]
   );
 
   const applyGain = useCallback(
     (trackId: TrackId, fineVolume: number, trimDb: number) => {
-      const gainNode = gainsRef.current[trackId];
+      const gain = engineRef.current?.gain(trackId);
       const audioCtx = audioContextRef.current;
-      if (!gainNode || !audioCtx) return;
+      if (!gain || !audioCtx) return;
 
-      const trimGain = offsetToGain(trimDb ?? 0);
-      const totalGain = globalVolume * fineVolume * trimGain;
-      const target = trackId === activeTrack ? totalGain : 0;
-      const now = audioCtx.currentTime;
-      gainNode.gain.cancelScheduledValues(now);
-      gainNode.gain.setTargetAtTime(target, now, 0.01);
+      const target = trackGain(trackId, fineVolume, trimDb);
+      if (gainTargetsRef.current.get(gain) === target) return;
+      gainTargetsRef.current.set(gain, target);
+      scheduleGainChange(audioCtx, gain, target, switchSettings, switchTime(audioCtx));
     },
-    [activeTrack, globalVolume]
+    [switchSettings, switchTime, trackGain]
   );
 
-  const tick = useCallback(() => {
-    const audioCtx = audioContextRef.current;
-    if (!audioCtx || startTimeRef.current === null) return;
-
-    const elapsed = audioCtx.currentTime - startTimeRef.current;
-    const playbackDuration = playbackDurationRef.current;
+  const handlePlayPause = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine) return;
 
-    if (playbackDuration && elapsed >= playbackDuration) {
-      setCurrentTime(playbackDuration);
-      stopPlayback(false, playbackDuration);
+    if (engine.isPlaying()) {
+      stopPlayback();
       return;
     }
 
-    setCurrentTime(elapsed);
-    rafRef.current = requestAnimationFrame(tick);
+    await engine.play();
+    setIsPlaying(engine.isPlaying());
   }, [stopPlayback]);
 
-  const schedulePlayback = useCallback(
-    async (offsetSeconds: number) => {
-      const audioCtx = ensureAudioContext();
-      if (!audioCtx) return;
-
-      await audioCtx.resume();
-      teardownNodes();
-
-      const tracksWithBuffers = (Object.keys(buffersRef.current) as TrackId[]).filter(
-        (id) => Boolean(buffersRef.current[id])
-      );
+  const handleSeek = useCallback((newTime: number) => {
+    const engine = engineRef.current;
+    if (engine) {
+      engine.seek(newTime);
+    } else {
+      setCurrentTime(newTime);
+    }
+  }, []);
 
-      if (tracksWithBuffers.length === 0) {
-        return;
+  // Dragging scrubs in short faded grains; releasing lands exactly where the pointer stopped.
+  const handleScrub = useCallback(
+    (newTime: number) => {
+      const engine = engineRef.current;
+      if (engine) {
+        engine.scrub(newTime);
+      } else {
+        handleSeek(newTime);
       }
+    },
+    [handleSeek]
+  );
 
-      tracksWithBuffers.forEach((trackId) => {
-        const buffer = buffersRef.current[trackId];
-        if (!buffer) return;
-
-        const source = audioCtx.createBufferSource();
-        const gainNode = audioCtx.createGain();
+  const handleScrubEnd = useCallback(() => {
+    engineRef.current?.endScrub();
+  }, []);
 
-        source.buffer = buffer;
-        source.connect(gainNode);
-        gainNode.connect(audioCtx.destination);
+  const handleRewind = useCallback(() => {
+    handleSeek(activeLoop ? activeLoop.start : 0);
+  }, [activeLoop, handleSeek]);
 
-        const maxOffset = Math.max(0, buffer.duration - 0.005);
-        const startOffset = Math.max(0, Math.min(offsetSeconds, maxOffset));
+  const handleLoopSelect = useCallback((start: number, end: number) => {
+    setLoopRegion({ start, end });
+    setLoopEnabled(true);
+  }, []);
 
-        const trimDb = tracks[trackId].loudnessTrimDb ?? 0;
-        const totalGain = globalVolume * tracks[trackId].volume * offsetToGain(trimDb);
-        gainNode.gain.value = trackId === activeTrack ? totalGain : 0;
-        sourcesRef.current[trackId] = source;
-        gainsRef.current[trackId] = gainNode;
+  const handleSetLoopIn = useCallback(() => {
+    const position = Math.min(currentTime, Math.max(0, playbackDurationRef.current - MIN_LOOP_SECONDS));
+    setLoopRegion((prev) => ({
+      start: position,
+      end:
+        prev && prev.end - position >= MIN_LOOP_SECONDS
+          ? prev.end
+          : Math.min(playbackDurationRef.current, position + DEFAULT_LOOP_SECONDS)
+    }));
+    setLoopEnabled(true);
+  }, [currentTime]);
+
+  const handleSetLoopOut = useCallback(() => {
+    const position = Math.max(currentTime, MIN_LOOP_SECONDS);
+    setLoopRegion((prev) => ({
+      start:
+        prev && position - prev.start >= MIN_LOOP_SECONDS
+          ? prev.start
+          : Math.max(0, position - DEFAULT_LOOP_SECONDS),
+      end: position
+    }));
+    setLoopEnabled(true);
+  }, [currentTime]);
+
+  const toggleLoop = useCallback(() => {
+    if (!loopRegion) return;
+    setLoopEnabled((prev) => !prev);
+  }, [loopRegion]);
+
+  const clearLoop = useCallback(() => {
+    setLoopRegion(null);
+    setLoopEnabled(false);
+  }, []);
 
-        source.start(audioCtx.currentTime, startOffset);
-      });
+  const runAlignment = useCallback(async () => {
+    const withEnvelopes = TRACK_SLOT_IDS.filter((id) => envelopesRef.current[id]);
+    const [referenceId, ...targetIds] = withEnvelopes;
+    const reference = referenceId ? envelopesRef.current[referenceId] : null;
+    if (!referenceId || !reference) return;
+
+    setTracks((prev) =>
+      prev[referenceId]
+        ? {
+            ...prev,
+            [referenceId]: { ...prev[referenceId], alignmentOffset: 0, alignmentConfidence: null }
+          }
+        : prev
+    );
 
-      startTimeRef.current = audioCtx.currentTime - offsetSeconds;
-      pausedAtRef.current = 0;
-      setCurrentTime(offsetSeconds);
-      setIsPlaying(true);
-      rafRef.current = requestAnimationFrame(tick);
-    },
-    [activeTrack, ensureAudioContext, globalVolume, teardownNodes, tick, tracks]
-  );
+    for (const targetId of targetIds) {
+      const target = envelopesRef.current[targetId];
+      if (!target) continue;
 
-  const handlePlayPause = useCallback(async () => {
-    if (isPlaying) {
-      stopPlayback(true);
-      return;
+      try {
+        const { offsetSeconds, confidence } = await detectAlignment(reference, target);
+        setTracks((prev) =>
+          prev[targetId]
+            ? {
+                ...prev,
+                [targetId]: {
+                  ...prev[targetId],
+                  alignmentOffset: offsetSeconds,
+                  alignmentConfidence: confidence
+                }
+              }
+            : prev
+        );
+      } catch (error) {
+        console.warn("Alignment detection failed", error);
+      }
     }
+  }, []);
 
-    const hasAudioLoaded = (Object.values(buffersRef.current) as (AudioBuffer | null)[]).some(
-      (buffer) => Boolean(buffer)
+  const setLoadingStage = useCallback((trackId: TrackId, loadingStage: LoadingStage) => {
+    setTracks((prev) =>
+      prev[trackId]
+        ? { ...prev, [trackId]: { ...prev[trackId], loading: true, loadingStage, loadingProgress: null } }
+        : prev
     );
+  }, []);
 
-    if (!hasAudioLoaded) {
-      return;
-    }
-
-    const offset = pausedAtRef.current || 0;
-    await schedulePlayback(offset);
-  }, [isPlaying, schedulePlayback, stopPlayback]);
-
-  const handleSeek = useCallback(
-    async (newTime: number) => {
-      pausedAtRef.current = newTime;
-      setCurrentTime(newTime);
-
-      if (isPlaying) {
-        await schedulePlayback(newTime);
-      }
-    },
-    [isPlaying, schedulePlayback]
-  );
+  const setLoadingProgress = useCallback((trackId: TrackId, loadingProgress: number) => {
+    setTracks((prev) =>
+      prev[trackId]?.loading ? { ...prev, [trackId]: { ...prev[trackId], loadingProgress } } : prev
+    );
+  }, []);
 
   const handleFileSelect = useCallback(
-    async (trackId: TrackId, file: File) => {
+    async (trackId: TrackId, file: File, preferredLayout?: ChannelLayoutId) => {
+      // A newer file for the same slot makes this load stale at its next await.
+      const loadId = (loadIdsRef.current[trackId] ?? 0) + 1;
+      loadIdsRef.current[trackId] = loadId;
+      const isStale = () => loadIdsRef.current[trackId] !== loadId;
+
       setTracks((prev) => ({
         ...prev,
         [trackId]: {
-          ...prev[trackId],
+          ...(prev[trackId] ?? initialTrackState(trackId)),
           loading: true,
+          loadingStage: "reading",
+          loadingProgress: null,
           error: null
         }
       }));
@@ -314,10 +632,49 @@ export default function HomePage() {
 
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const buffer = await audioCtx.decodeAudioData(arrayBuffer.slice(0));
-        buffersRef.current[trackId] = buffer;
-
-        const { lufsIntegrated, peakDb } = await analyzeLoudness(buffer);
+        if (isStale()) return;
+        setLoadingStage(trackId, "decoding");
+        const { buffer, format } = await decodeAudioFile(audioCtx, arrayBuffer);
+        if (isStale()) return;
+        setTrackBuffer(trackId, buffer);
+        filesRef.current[trackId] = file;
+        setLoadingStage(trackId, "analyzing");
+
+        const channelCount = buffer.numberOfChannels;
+        const channelLayout =
+          preferredLayout && channelLayoutOptions(channelCount).some((layout) => layout.id === preferredLayout)
+            ? preferredLayout
+            : detectChannelLayout(channelCount, format?.channelLabels);
+
+        const {
+          lufsIntegrated,
+          peakDb,
+          truePeakDb,
+          truePeakChannelsDb,
+          truePeakTime,
+          momentaryMaxLufs,
+          shortTermMaxLufs,
+          loudnessRange,
+          rmsDb,
+          aWeightedDb,
+          clipCount,
+          overCount,
+          levelEvents,
+          envelope,
+          waveform,
+          steps
+        } = await analyzeLoudness(buffer, {
+          slot: trackId,
+          layout: channelLayout,
+          overThresholdDb: overThresholdRef.current,
+          onProgress: (progress) => setLoadingProgress(trackId, progress)
+        });
+        if (isStale()) return;
+        envelopesRef.current[trackId] = envelope;
+        stepsRef.current[trackId] = steps;
+        setWaveforms((prev) => ({ ...prev, [trackId]: waveform }));
+        setLoudnessCurves((prev) => ({ ...prev, [trackId]: steps ? computeLoudnessCurves(steps) : null }));
+        setSpectra((prev) => ({ ...prev, [trackId]: null }));
 
         setTracks((prev) => ({
           ...prev,
@@ -326,45 +683,253 @@ export default function HomePage() {
             name: file.name,
             duration: buffer.duration,
             sampleRate: buffer.sampleRate,
+            format,
+            channelCount,
+            channelLayout,
             size: file.size,
             loading: false,
+            loadingStage: null,
+            loadingProgress: null,
             error: null,
             hasBuffer: true,
             volume: DEFAULT_FINE_ADJUST,
             loudnessTrimDb: 0,
             lufsIntegrated,
-            peakDb
+            peakDb,
+            truePeakDb,
+            truePeakChannelsDb,
+            truePeakTime,
+            momentaryMaxLufs,
+            shortTermMaxLufs,
+            loudnessRange,
+            rmsDb,
+            aWeightedDb,
+            clipCount,
+            overCount,
+            levelEvents,
+            alignmentOffset: null,
+            alignmentConfidence: null,
+            alignmentNudge: 0
           }
         }));
 
         const duration = Math.max(buffer.duration, playbackDurationRef.current);
         playbackDurationRef.current = duration;
 
-        stopPlayback(true, duration);
+        void runAlignment();
       } catch (error) {
+        if (error instanceof AnalysisSupersededError || isStale()) return;
         console.error("Failed to decode audio", error);
-        buffersRef.current[trackId] = null;
+        setTrackBuffer(trackId, null);
+        filesRef.current[trackId] = null;
+        envelopesRef.current[trackId] = null;
+        stepsRef.current[trackId] = null;
+        setWaveforms((prev) => ({ ...prev, [trackId]: null }));
+        setLoudnessCurves((prev) => ({ ...prev, [trackId]: null }));
+        setSpectra((prev) => ({ ...prev, [trackId]: null }));
         setTracks((prev) => ({
           ...prev,
           [trackId]: {
             ...prev[trackId],
             loading: false,
+            loadingStage: null,
+            loadingProgress: null,
             error: "Unable to decode this audio file.",
             hasBuffer: false,
+            channelCount: null,
+            channelLayout: null,
             volume: DEFAULT_FINE_ADJUST,
             loudnessTrimDb: 0,
             lufsIntegrated: null,
-            peakDb: null
+            peakDb: null,
+            truePeakDb: null,
+            truePeakChannelsDb: [],
+            truePeakTime: null,
+            momentaryMaxLufs: null,
+            shortTermMaxLufs: null,
+            loudnessRange: null,
+            rmsDb: null,
+            aWeightedDb: null,
+            clipCount: 0,
+            overCount: 0,
+            levelEvents: [],
+            alignmentOffset: null,
+            alignmentConfidence: null,
+            alignmentNudge: 0
           }
         }));
       }
     },
-    [ensureAudioContext, stopPlayback]
+    [ensureAudioContext, runAlignment, setLoadingStage, setTrackBuffer]
+  );
+
+  // Fills the preferred slot, then empty slots, then new slots; replacing loaded
+  // tracks needs confirmation. Every file decodes and analyzes concurrently.
+  const handleFilesDrop = useCallback(
+    (files: File[], preferredSlot?: TrackId) => {
+      if (isBlind || files.length === 0) return;
+
+      const isFree = (id: TrackId) => !tracks[id].hasBuffer && !tracks[id].loading;
+      const candidates: TrackId[] = [];
+      const addCandidate = (id: TrackId) => {
+        if (!candidates.includes(id)) candidates.push(id);
+      };
+      if (preferredSlot) addCandidate(preferredSlot);
+      trackIds.filter(isFree).forEach(addCandidate);
+      TRACK_SLOT_IDS.filter((id) => !tracks[id]).forEach(addCandidate);
+      trackIds.forEach(addCandidate);
+
+      let assignments = files.slice(0, candidates.length).map((file, index) => ({
+        slotId: candidates[index],
+        file
+      }));
+      const replacing = assignments.filter(({ slotId }) => tracks[slotId] && !isFree(slotId));
+      if (replacing.length) {
+        const names = replacing.map(({ slotId }) => `${trackLabel(slotId)} (${tracks[slotId].name ?? "loading"})`);
+        if (!window.confirm(`Replace ${names.join(", ")}?`)) {
+          assignments = assignments.filter((assignment) => !replacing.includes(assignment));
+        }
+      }
+
+      assignments.forEach(({ slotId, file }) => {
+        void handleFileSelect(slotId, file);
+      });
+    },
+    [handleFileSelect, isBlind, trackIds, tracks]
+  );
+
+  const [isPageDragOver, setIsPageDragOver] = useState(false);
+  useEffect(() => {
+    const onDragOver = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) return;
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = isBlind ? "none" : "copy";
+      setIsPageDragOver(!isBlind);
+    };
+    const onDragLeave = (event: DragEvent) => {
+      if (event.relatedTarget === null) setIsPageDragOver(false);
+    };
+    const onDrop = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) return;
+      event.preventDefault();
+      setIsPageDragOver(false);
+      handleFilesDrop(audioFilesFrom(event.dataTransfer));
+    };
+
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("drop", onDrop);
+    return () => {
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, [handleFilesDrop, isBlind]);
+
+  const handleAlignmentNudge = useCallback((trackId: TrackId, nudgeSeconds: number) => {
+    const clamped = Math.max(-MAX_ALIGNMENT_NUDGE_SECONDS, Math.min(MAX_ALIGNMENT_NUDGE_SECONDS, nudgeSeconds));
+    setTracks((prev) =>
+      prev[trackId]
+        ? { ...prev, [trackId]: { ...prev[trackId], alignmentNudge: Number.isFinite(clamped) ? clamped : 0 } }
+        : prev
+    );
+  }, []);
+
+  // Layout and over threshold only affect loudness and level events; waveform and alignment stay.
+  const reanalyzeTrack = useCallback(
+    async (trackId: TrackId, channelLayout: ChannelLayoutId) => {
+      const buffer = buffersRef.current[trackId];
+      if (!buffer) return;
+      const loadId = loadIdsRef.current[trackId];
+
+      setTracks((prev) => ({
+        ...prev,
+        [trackId]: {
+          ...prev[trackId],
+          channelLayout,
+          loading: true,
+          loadingStage: "analyzing",
+          loadingProgress: null,
+          error: null
+        }
+      }));
+
+      try {
+        const {
+          lufsIntegrated,
+          momentaryMaxLufs,
+          shortTermMaxLufs,
+          loudnessRange,
+          clipCount,
+          overCount,
+          levelEvents,
+          steps
+        } = await analyzeLoudness(buffer, {
+          slot: trackId,
+          layout: channelLayout,
+          overThresholdDb: overThresholdRef.current,
+          onProgress: (progress) => setLoadingProgress(trackId, progress)
+        });
+        if (loadIdsRef.current[trackId] !== loadId) return;
+        stepsRef.current[trackId] = steps;
+        setLoudnessCurves((prev) => ({ ...prev, [trackId]: steps ? computeLoudnessCurves(steps) : null }));
+        setTracks((prev) =>
+          prev[trackId]
+            ? {
+                ...prev,
+                [trackId]: {
+                  ...prev[trackId],
+                  loading: false,
+                  loadingStage: null,
+                  loadingProgress: null,
+                  lufsIntegrated,
+                  momentaryMaxLufs,
+                  shortTermMaxLufs,
+                  loudnessRange,
+                  clipCount,
+                  overCount,
+                  levelEvents
+                }
+              }
+            : prev
+        );
+      } catch (error) {
+        if (error instanceof AnalysisSupersededError || loadIdsRef.current[trackId] !== loadId) return;
+        console.error("Failed to re-analyze loudness", error);
+        setTracks((prev) =>
+          prev[trackId]
+            ? {
+                ...prev,
+                [trackId]: {
+                  ...prev[trackId],
+                  loading: false,
+                  loadingStage: null,
+                  loadingProgress: null,
+                  error: "Unable to re-analyze this track."
+                }
+              }
+            : prev
+        );
+      }
+    },
+    [setLoadingProgress]
+  );
+
+  const handleOverThresholdChange = useCallback(
+    (thresholdDb: number) => {
+      overThresholdRef.current = thresholdDb;
+      setOverThresholdDb(thresholdDb);
+      loadedTrackIds.forEach((id) => {
+        const { channelLayout } = tracks[id];
+        if (channelLayout && !tracks[id].loading) void reanalyzeTrack(id, channelLayout);
+      });
+    },
+    [loadedTrackIds, reanalyzeTrack, tracks]
   );
 
   const handleVolumeChange = useCallback(
     (trackId: TrackId, volume: number) => {
-      const trimDb = trackId === "A" ? tracks.A.loudnessTrimDb : tracks.B.loudnessTrimDb;
+      const trimDb = tracks[trackId]?.loudnessTrimDb ?? 0;
       const clampedVolume = Math.max(0, Math.min(1, volume));
       setTracks((prev) => ({
         ...prev,
@@ -375,31 +940,467 @@ export default function HomePage() {
       }));
       applyGain(trackId, clampedVolume, trimDb ?? 0);
     },
-    [applyGain, tracks.A.loudnessTrimDb, tracks.B.loudnessTrimDb]
+    [applyGain, tracks]
   );
 
   const toggleActiveTrack = useCallback(() => {
-    setActiveTrack((prev) => (prev === "A" ? "B" : "A"));
+    if (loadedTrackIds.length < 2) return;
+    setActiveTrack((prev) => {
+      const index = loadedTrackIds.indexOf(prev);
+      return loadedTrackIds[(index + 1) % loadedTrackIds.length];
+    });
+  }, [loadedTrackIds]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      const [summaries, usage] = await Promise.all([listSessions(), estimateStorage()]);
+      setSessions(summaries);
+      setStorageUsage(usage);
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : "Unable to read saved sessions.");
+    }
   }, []);
 
   useEffect(() => {
-    playbackDurationRef.current = Math.max(
-      tracks.A.duration ?? 0,
-      tracks.B.duration ?? 0
+    void refreshSessions();
+  }, [refreshSessions]);
+
+  const handleSaveSession = useCallback(
+    async (name: string) => {
+      const playhead = engineRef.current?.position() ?? 0;
+      const snapshot: SessionSnapshot = {
+        tracks,
+        globalVolume,
+        activeTrack,
+        playhead,
+        loopRegion,
+        loopEnabled,
+        matchStrategy,
+        appliedMatch,
+        monitorMode,
+        switchSettings,
+        markers,
+        overThresholdDb
+      };
+      const files: Record<TrackId, File> = {};
+      trackIds.forEach((id) => {
+        const file = filesRef.current[id];
+        if (file) files[id] = file;
+      });
+
+      setSessionBusy(true);
+      setSessionError(null);
+      try {
+        const existing = sessions.find((session) => session.name === name);
+        await saveSession(name, snapshot, files, existing?.id);
+        await refreshSessions();
+      } catch (error) {
+        setSessionError(error instanceof Error ? error.message : "Unable to save the session.");
+      } finally {
+        setSessionBusy(false);
+      }
+    },
+    [
+      activeTrack,
+      appliedMatch,
+      globalVolume,
+      loopEnabled,
+      loopRegion,
+      markers,
+      matchStrategy,
+      monitorMode,
+      overThresholdDb,
+      refreshSessions,
+      sessions,
+      switchSettings,
+      trackIds,
+      tracks
+    ]
+  );
+
+  const handleOpenSession = useCallback(
+    async (id: string) => {
+      if (isBlind) return;
+      setSessionBusy(true);
+      setSessionError(null);
+      try {
+        const { record, files } = await loadSession<SessionSnapshot>(id);
+        const { snapshot } = record;
+
+        stopPlayback();
+        handleSeek(0);
+        // Loads still in flight would otherwise land in the restored slots.
+        trackIds.forEach((slotId) => {
+          cancelAnalysis(slotId);
+          loadIdsRef.current[slotId] = (loadIdsRef.current[slotId] ?? 0) + 1;
+        });
+        Object.keys(buffersRef.current).forEach((slotId) => setTrackBuffer(slotId, null));
+        buffersRef.current = {};
+        envelopesRef.current = {};
+        stepsRef.current = {};
+        filesRef.current = {};
+        setWaveforms({});
+        setLoudnessCurves({});
+        setSpectra({});
+        setNullReport(null);
+        const slotIds = Object.keys(snapshot.tracks);
+        setTracks(Object.fromEntries(slotIds.map((slotId) => [slotId, initialTrackState(slotId)])));
+        overThresholdRef.current = snapshot.overThresholdDb ?? DEFAULT_OVER_THRESHOLD_DB;
+
+        // Decoding and analysis run again; only user choices come from the snapshot.
+        await Promise.all(
+          slotIds
+            .filter((slotId) => files[slotId])
+            .map((slotId) =>
+              // Sessions saved before layouts existed have none; the file's own layout is used.
+              handleFileSelect(slotId, files[slotId], snapshot.tracks[slotId].channelLayout ?? undefined)
+            )
+        );
+
+        setTracks((prev) => {
+          const restored: Record<TrackId, TrackState> = {};
+          slotIds.forEach((slotId) => {
+            const saved = snapshot.tracks[slotId];
+            const current = prev[slotId] ?? initialTrackState(slotId);
+            restored[slotId] = current.hasBuffer
+              ? {
+                  ...current,
+                  volume: saved.volume,
+                  loudnessTrimDb: saved.loudnessTrimDb,
+                  alignmentNudge: saved.alignmentNudge,
+                  polarityInverted: saved.polarityInverted ?? false
+                }
+              : current;
+          });
+          return restored;
+        });
+        setGlobalVolume(snapshot.globalVolume);
+        setActiveTrack(snapshot.tracks[snapshot.activeTrack] ? snapshot.activeTrack : slotIds[0]);
+        setLoopRegion(snapshot.loopRegion);
+        setLoopEnabled(snapshot.loopEnabled);
+        setMatchStrategy(snapshot.matchStrategy);
+        setAppliedMatch(snapshot.appliedMatch);
+        setMonitorMode(snapshot.monitorMode);
+        setSwitchSettings(snapshot.switchSettings);
+        setMarkers(snapshot.markers ?? []);
+        setOverThresholdDb(overThresholdRef.current);
+        handleSeek(snapshot.playhead);
+      } catch (error) {
+        setSessionError(error instanceof Error ? error.message : "Unable to open the session.");
+      } finally {
+        setSessionBusy(false);
+      }
+    },
+    [handleFileSelect, handleSeek, isBlind, setTrackBuffer, stopPlayback, trackIds]
+  );
+
+  const handleDeleteSession = useCallback(
+    async (id: string) => {
+      setSessionBusy(true);
+      try {
+        await deleteSession(id);
+        await refreshSessions();
+      } catch (error) {
+        setSessionError(error instanceof Error ? error.message : "Unable to delete the session.");
+      } finally {
+        setSessionBusy(false);
+      }
+    },
+    [refreshSessions]
+  );
+
+  const handleExportReport = useCallback(
+    (format: "json" | "csv" | "html") => {
+      const generatedAt = new Date().toISOString();
+      const report: ComparisonReport = {
+        generatedAt,
+        matchStrategy: appliedMatch ? describeMatchStrategy(appliedMatch, trackLabel) : null,
+        globalVolume,
+        tracks: loadedTrackIds.map((id) => {
+          const track = tracks[id];
+          return {
+            slot: id,
+            label: trackLabel(id),
+            fileName: track.name,
+            sizeBytes: track.size,
+            durationSeconds: track.duration,
+            sampleRate: track.sampleRate,
+            metrics: {
+              lufsIntegrated: track.lufsIntegrated,
+              peakDb: track.peakDb,
+              truePeakDb: track.truePeakDb,
+              truePeakChannelsDb: track.truePeakChannelsDb,
+              truePeakTime: track.truePeakTime,
+              momentaryMaxLufs: track.momentaryMaxLufs,
+              shortTermMaxLufs: track.shortTermMaxLufs,
+              loudnessRange: track.loudnessRange,
+              rmsDb: track.rmsDb,
+              aWeightedDb: track.aWeightedDb,
+              clipCount: track.clipCount,
+              overCount: track.overCount,
+              levelEvents: track.levelEvents
+            },
+            autoTrimDb: -track.loudnessTrimDb,
+            fineTrimDb: track.volume > 0 ? 20 * Math.log10(track.volume) : null,
+            alignmentOffsetSeconds:
+              track.alignmentOffset === null && track.alignmentNudge === 0 && loadedTrackIds[0] !== id
+                ? null
+                : alignmentShift(track)
+          };
+        })
+      };
+
+      const basename = `compare-tracks-report-${generatedAt.replace(/[:.]/g, "-")}`;
+      if (format === "json") {
+        downloadJson(`${basename}.json`, report);
+      } else if (format === "csv") {
+        downloadBlob(`${basename}.csv`, new Blob([buildReportCsv(report)], { type: "text/csv" }));
+      } else {
+        downloadBlob(`${basename}.html`, new Blob([buildReportHtml(report)], { type: "text/html" }));
+      }
+    },
+    [appliedMatch, globalVolume, loadedTrackIds, tracks]
+  );
+
+  const handleAddMarker = useCallback(
+    (trackId: TrackId | null) => {
+      setMarkers((prev) => sortMarkers([...prev, createMarker(currentTime, trackId)]));
+    },
+    [currentTime]
+  );
+
+  const handleMarkerChange = useCallback(
+    (id: string, patch: Partial<Pick<Marker, "text" | "trackId">>) => {
+      setMarkers((prev) => prev.map((marker) => (marker.id === id ? { ...marker, ...patch } : marker)));
+    },
+    []
+  );
+
+  const handleMarkerDelete = useCallback((id: string) => {
+    setMarkers((prev) => prev.filter((marker) => marker.id !== id));
+  }, []);
+
+  const markerFiles = useCallback(
+    () => Object.fromEntries(trackIds.map((id) => [id, tracks[id].name])),
+    [trackIds, tracks]
+  );
+
+  const handleExportMarkers = useCallback(() => {
+    const data = buildMarkerExport(markers, markerFiles());
+    downloadJson(`compare-tracks-markers-${data.exportedAt.replace(/[:.]/g, "-")}.json`, data);
+  }, [markerFiles, markers]);
+
+  const handleImportMarkers = useCallback(
+    async (file: File) => {
+      setMarkerError(null);
+      try {
+        const imported = parseMarkerImport(JSON.parse(await file.text()), markerFiles());
+        setMarkers((prev) => {
+          const known = new Set(prev.map((marker) => marker.id));
+          return sortMarkers([...prev, ...imported.filter((marker) => !known.has(marker.id))]);
+        });
+      } catch (error) {
+        setMarkerError(error instanceof Error ? error.message : "Unable to read that marker file.");
+      }
+    },
+    [markerFiles]
+  );
+
+  const handleAddTrack = useCallback(() => {
+    setTracks((prev) => {
+      const nextId = TRACK_SLOT_IDS.find((id) => !prev[id]);
+      if (!nextId) return prev;
+      return { ...prev, [nextId]: initialTrackState(nextId) };
+    });
+  }, []);
+
+  const handleRemoveTrack = useCallback(
+    (trackId: TrackId) => {
+      if (trackIds.length <= MIN_TRACKS || isBlind) return;
+
+      cancelAnalysis(trackId);
+      loadIdsRef.current[trackId] = (loadIdsRef.current[trackId] ?? 0) + 1;
+      setTrackBuffer(trackId, null);
+      delete buffersRef.current[trackId];
+      delete envelopesRef.current[trackId];
+      delete stepsRef.current[trackId];
+      delete filesRef.current[trackId];
+      setWaveforms((prev) => {
+        const { [trackId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setLoudnessCurves((prev) => {
+        const { [trackId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setSpectra((prev) => {
+        const { [trackId]: _removed, ...rest } = prev;
+        return rest;
+      });
+
+      setTracks((prev) => {
+        const { [trackId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setActiveTrack((prev) => {
+        if (prev !== trackId) return prev;
+        return trackIds.find((id) => id !== trackId) ?? prev;
+      });
+      setMarkers((prev) =>
+        prev.map((marker) => (marker.trackId === trackId ? { ...marker, trackId: null } : marker))
+      );
+
+      void runAlignment();
+    },
+    [isBlind, runAlignment, setTrackBuffer, trackIds]
+  );
+
+  const handleAbxListen = useCallback(
+    (source: AbxSource) => {
+      if (!abxSession) return;
+      setAbxListening(source);
+      setActiveTrack(resolveAbxSource(abxSession, source));
+    },
+    [abxSession]
+  );
+
+  const handleAnalyzeSpectrum = useCallback(async () => {
+    const region = spectrumRange === "loop" ? loopRegion : null;
+    setSpectrumBusy(true);
+    try {
+      const results = await Promise.all(
+        loadedTrackIds.map(async (id) => {
+          const buffer = buffersRef.current[id];
+          if (!buffer) return [id, null] as const;
+          // Analyze the same passage in every track, following the alignment shift.
+          const shift = alignmentShift(tracks[id]);
+          const range = region ? { start: region.start + shift, end: region.end + shift } : null;
+          return [id, await analyzeSpectrum(buffer, spectrumSmoothing, range)] as const;
+        })
+      );
+      setSpectra(Object.fromEntries(results));
+    } catch (error) {
+      console.error("Spectrum analysis failed", error);
+    } finally {
+      setSpectrumBusy(false);
+    }
+  }, [loadedTrackIds, loopRegion, spectrumRange, spectrumSmoothing, tracks]);
+
+  const handleAbxStart = useCallback(() => {
+    const [first, second] = abxPair;
+    if (first === second || !tracks[first]?.hasBuffer || !tracks[second]?.hasBuffer) return;
+    const session = createAbxSession([first, second], abxTrialCount);
+    setAbxSession(session);
+    setAbxListening("A");
+    setActiveTrack(resolveAbxSource(session, "A"));
+  }, [abxPair, abxTrialCount, tracks]);
+
+  const handleAbxAnswer = useCallback(
+    (answer: AbxLabel) => {
+      if (!abxSession) return;
+      const next = answerAbxTrial(abxSession, answer);
+      setAbxSession(next);
+      if (next.completedAt === null) {
+        // X is re-drawn for the next trial, so fall back to a known reference.
+        setAbxListening("A");
+        setActiveTrack(resolveAbxSource(next, "A"));
+      }
+    },
+    [abxSession]
+  );
+
+  const handleAbxExport = useCallback(() => {
+    if (!abxSession) return;
+    const names: Record<TrackId, string | null> = {};
+    trackIds.forEach((id) => {
+      names[id] = tracks[id].name;
+    });
+    const log = buildAbxLog(abxSession, names);
+    downloadJson(`abx-session-${new Date(abxSession.startedAt).toISOString()}.json`, log);
+  }, [abxSession, trackIds, tracks]);
+
+  const handleAbxClose = useCallback(() => {
+    setAbxSession(null);
+    setAbxListening(null);
+  }, []);
+
+  const handlePolarityToggle = useCallback((trackId: TrackId) => {
+    setTracks((prev) =>
+      prev[trackId]
+        ? { ...prev, [trackId]: { ...prev[trackId], polarityInverted: !prev[trackId].polarityInverted } }
+        : prev
     );
-  }, [tracks.A.duration, tracks.B.duration]);
+  }, []);
+
+  const toggleNullMode = useCallback(() => {
+    if (isBlind) return;
+    setNullMode((prev) => !prev);
+  }, [isBlind]);
+
+  const handleNullReport = useCallback(async () => {
+    if (!nullPartner) return;
+    const source = buffersRef.current[activeTrack];
+    const other = buffersRef.current[nullPartner];
+    if (!source || !other) return;
+
+    const pairKey = `${activeTrack}:${nullPartner}`;
+    setNullReport({ pairKey, result: null, error: null, busy: true });
+    try {
+      const result = await measureNullResidual(source, other, {
+        offsetSeconds: alignmentShift(tracks[nullPartner]) - alignmentShift(tracks[activeTrack]),
+        sourceGain: nullGain(tracks[activeTrack]),
+        otherGain: nullGain(tracks[nullPartner])
+      });
+      setNullReport({ pairKey, result, error: null, busy: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Null test failed.";
+      setNullReport({ pairKey, result: null, error: message, busy: false });
+    }
+  }, [activeTrack, nullPartner, tracks]);
+
+  const toggleFocus = useCallback(() => {
+    if (isBlind) {
+      handleAbxListen(abxListening === "A" ? "B" : "A");
+      return;
+    }
+    toggleActiveTrack();
+  }, [abxListening, handleAbxListen, isBlind, toggleActiveTrack]);
+
+  const playbackDuration = useMemo(
+    () =>
+      trackIds.reduce((longest, id) => {
+        const { duration } = tracks[id];
+        return duration === null ? longest : Math.max(longest, duration - alignmentShift(tracks[id]));
+      }, 0),
+    [trackIds, tracks]
+  );
 
   useEffect(() => {
-    applyGain("A", tracks.A.volume, tracks.A.loudnessTrimDb);
-    applyGain("B", tracks.B.volume, tracks.B.loudnessTrimDb);
-  }, [
-    activeTrack,
-    applyGain,
-    tracks.A.volume,
-    tracks.B.volume,
-    tracks.A.loudnessTrimDb,
-    tracks.B.loudnessTrimDb
-  ]);
+    playbackDurationRef.current = playbackDuration;
+  }, [playbackDuration]);
+
+  // Loop edits take effect immediately; the engine restarts its sources with the new loop points.
+  useEffect(() => {
+    activeLoopRef.current = activeLoop;
+    engineRef.current?.setLoop(activeLoop);
+  }, [activeLoop]);
+
+  // Re-sync running sources whenever a detected offset or manual nudge changes.
+  // The engine ignores calls where no shift actually moved.
+  useEffect(() => {
+    engineRef.current?.setShifts(Object.fromEntries(trackIds.map((id) => [id, alignmentShift(tracks[id])])));
+  }, [trackIds, tracks]);
+
+  useEffect(() => {
+    trackIds.forEach((id) => {
+      applyGain(id, tracks[id].volume, tracks[id].loudnessTrimDb);
+    });
+  }, [activeTrack, applyGain, trackIds, tracks]);
+
+  useEffect(() => {
+    monitorModeRef.current = monitorMode;
+    monitorRef.current?.setMode(monitorMode);
+  }, [monitorMode]);
 
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
@@ -427,26 +1428,65 @@ export default function HomePage() {
 
       if (event.code === "KeyW") {
         event.preventDefault();
-        void handleSeek(0);
+        handleRewind();
+        return;
+      }
+
+      if (event.code === "KeyI") {
+        event.preventDefault();
+        handleSetLoopIn();
         return;
       }
 
-      if (event.code === TRACK_KEYS.A) {
+      if (event.code === "KeyO") {
         event.preventDefault();
-        setActiveTrack("A");
+        handleSetLoopOut();
         return;
       }
 
-      if (event.code === TRACK_KEYS.B) {
+      if (event.code === "KeyL") {
         event.preventDefault();
-        setActiveTrack("B");
+        toggleLoop();
+        return;
+      }
+
+      if (isBlind) {
+        const blindSource = ABX_KEYS[event.code];
+        if (blindSource) {
+          event.preventDefault();
+          handleAbxListen(blindSource);
+          return;
+        }
+      } else {
+        const slotIndex = slotIndexForKey(event.code);
+        const focusTarget = slotIndex !== null ? trackIds[slotIndex] : TRACK_KEYS[event.code];
+        if (focusTarget && tracks[focusTarget]?.hasBuffer) {
+          event.preventDefault();
+          setActiveTrack(focusTarget);
+          return;
+        }
+      }
+
+      if (event.code === "KeyM") {
+        if (loadedTrackIds.length > 0) {
+          event.preventDefault();
+          handleAddMarker(event.shiftKey && !isBlind ? activeTrack : null);
+        }
+        return;
+      }
+
+      if (event.code === "KeyN") {
+        if (!isBlind && loadedTrackIds.length >= 2) {
+          event.preventDefault();
+          toggleNullMode();
+        }
         return;
       }
 
       if (event.code === "KeyT") {
-        if (tracks.A.hasBuffer && tracks.B.hasBuffer) {
+        if (loadedTrackIds.length >= 2) {
           event.preventDefault();
-          toggleActiveTrack();
+          toggleFocus();
         }
         return;
       }
@@ -454,28 +1494,102 @@ export default function HomePage() {
 
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [handlePlayPause, handleSeek, toggleActiveTrack, tracks.A.hasBuffer, tracks.B.hasBuffer]);
+  }, [
+    activeTrack,
+    handleAbxListen,
+    handleAddMarker,
+    handlePlayPause,
+    handleRewind,
+    handleSetLoopIn,
+    handleSetLoopOut,
+    isBlind,
+    loadedTrackIds,
+    toggleFocus,
+    toggleLoop,
+    toggleNullMode,
+    trackIds,
+    tracks
+  ]);
 
   useEffect(() => {
     return () => {
-      stopPlayback(false);
+      engineRef.current?.dispose();
       audioContextRef.current?.close().catch((error) => {
         console.warn("AudioContext close warning", error);
       });
     };
-  }, [stopPlayback]);
+  }, []);
 
-  const playbackDuration = useMemo(
-    () => Math.max(tracks.A.duration ?? 0, tracks.B.duration ?? 0),
-    [tracks.A.duration, tracks.B.duration]
+  const canPlay = loadedTrackIds.length > 0;
+
+  const canToggle = loadedTrackIds.length >= 2;
+
+  const abxOptions = loadedTrackIds.map((id) => ({ id, label: trackLabel(id) }));
+  const spectrumSeries: SpectrumSeries[] = loadedTrackIds.flatMap((id) => {
+    const curve = spectra[id];
+    return curve
+      ? [{ id, label: trackLabel(id), color: trackColor(id), curve, gainDb: -tracks[id].loudnessTrimDb }]
+      : [];
+  });
+
+  const overviewLayers = useMemo<WaveformLayer[]>(
+    () =>
+      loadedTrackIds.flatMap((id) => {
+        const peaks = waveforms[id];
+        if (!peaks) return [];
+        return [
+          {
+            id,
+            peaks,
+            color: isBlind ? "#94a3b8" : trackColor(id),
+            offsetSeconds: -alignmentShift(tracks[id]),
+            // Emphasising the focused layer would give blind sessions away.
+            emphasized: isBlind || id === activeTrack
+          }
+        ];
+      }),
+    [activeTrack, isBlind, loadedTrackIds, tracks, waveforms]
   );
 
-  const canPlay = useMemo(
-    () => tracks.A.hasBuffer || tracks.B.hasBuffer,
-    [tracks.A.hasBuffer, tracks.B.hasBuffer]
+  const loudnessGraphSeries = useMemo<LoudnessGraphSeries[]>(
+    () =>
+      loadedTrackIds.flatMap((id) => {
+        const curves = loudnessCurves[id];
+        if (!curves) return [];
+        return [
+          {
+            id,
+            label: trackLabel(id),
+            color: trackColor(id),
+            curves,
+            offsetSeconds: -alignmentShift(tracks[id]),
+            gainDb: -tracks[id].loudnessTrimDb
+          }
+        ];
+      }),
+    [loadedTrackIds, loudnessCurves, tracks]
   );
 
-  const canToggle = tracks.A.hasBuffer && tracks.B.hasBuffer;
+  const overviewMarkers = useMemo<WaveformMarker[]>(
+    () =>
+      markers.map((marker) => ({
+        id: marker.id,
+        time: marker.time,
+        color: marker.trackId && !isBlind ? trackColor(marker.trackId) : "#e2e8f0",
+        label: `${formatTime(marker.time)} ${marker.text || "(no note)"}`
+      })),
+    [isBlind, markers]
+  );
+
+  // Zoomed views page along with the playhead instead of scrolling every frame.
+  const overviewSpan = playbackDuration / waveformZoom;
+  const overviewStart =
+    waveformZoom > 1 && overviewSpan > 0
+      ? Math.min(
+          Math.floor(currentTime / overviewSpan) * overviewSpan,
+          Math.max(0, playbackDuration - overviewSpan)
+        )
+      : 0;
 
   const formattedDuration = playbackDuration ? formatTime(playbackDuration) : "--:--";
 
@@ -483,8 +1597,9 @@ export default function HomePage() {
     <main>
       <h1>Compare Tracks</h1>
       <p style={{ opacity: 0.75 }}>
-        Synchronized A/B comparison. Use <span className="keycap">Space</span> to play or pause,{" "}
-        <span className="keycap">T</span> to toggle.
+        Synchronized comparison of up to {TRACK_SLOT_IDS.length} tracks. Use <span className="keycap">Space</span> to
+        play or pause, <span className="keycap">1</span>–<span className="keycap">9</span> to focus a track and{" "}
+        <span className="keycap">T</span> to cycle.
       </p>
 
       <div className="match-toggle">
@@ -492,10 +1607,40 @@ export default function HomePage() {
           type="button"
           onClick={handleLoudnessMatch}
           className="match-toggle__button"
-          disabled={!(tracks.A.lufsIntegrated !== null && tracks.B.lufsIntegrated !== null)}
+          disabled={!matchReady}
         >
-          Match loudness (≤12 dB)
+          Match loudness (±{LOUDNESS_CAP_DB} dB)
         </button>
+        <label className="match-toggle__strategy">
+          <span>Strategy</span>
+          <select
+            value={matchStrategyKey(matchStrategy)}
+            onChange={(event) => setMatchStrategy(parseMatchStrategy(event.target.value))}
+          >
+            <option value="quietest">Quietest track (attenuate only)</option>
+            {MATCH_TARGETS_LUFS.map((target) => (
+              <option key={target} value={`target:${target}`}>
+                Target {target} LUFS
+              </option>
+            ))}
+            {loadedTrackIds.map((id) => (
+              <option key={id} value={`reference:${id}`}>
+                Reference: {trackLabel(id)}
+              </option>
+            ))}
+            <option value="loop">Loop/selection loudness</option>
+            <option value="rms">RMS level</option>
+            <option value="aWeighted">A-weighted level</option>
+            {PLATFORM_PROFILES.map((profile) => (
+              <option key={profile.id} value={`platform:${profile.id}`}>
+                Platform: {profile.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {matchStrategy.kind === "loop" && !loopRegion ? (
+          <span className="match-hint">Shift+drag the overview or set loop in/out first.</span>
+        ) : null}
       </div>
 
       <div className="global-volume" style={{ marginTop: "16px" }}>
@@ -513,35 +1658,217 @@ export default function HomePage() {
         />
         <output>{Math.round(globalVolume * 100)}%</output>
         <p style={{ marginTop: "6px", opacity: 0.75 }}>
-          Starts at 90% for safety; you can lower or raise up to 100% but never boost past unity.
+          Starts at 90% for safety and never goes past unity. Matching trims are signed: they cut by up to{" "}
+          {LOUDNESS_CAP_DB} dB, and target or reference matches boost by up to {LOUDNESS_CAP_DB} dB, held below{" "}
+          {BOOST_CEILING_DBTP} dBTP true peak.
         </p>
       </div>
 
+      <label className="match-toggle__strategy" style={{ marginTop: "12px" }}>
+        <span>Flag true-peak overs above</span>
+        <select
+          value={overThresholdDb}
+          onChange={(event) => handleOverThresholdChange(Number(event.target.value))}
+        >
+          {OVER_THRESHOLDS_DB.map((threshold) => (
+            <option key={threshold} value={threshold}>
+              {threshold.toFixed(1)} dBTP
+            </option>
+          ))}
+        </select>
+      </label>
+
       <section className="track-grid">
-        {(Object.keys(tracks) as TrackId[]).map((trackId) => {
+        {trackIds.map((trackId, index) => {
           const track = tracks[trackId];
           return (
             <TrackCard
               key={track.id}
               track={track}
+              label={trackLabel(trackId)}
+              color={trackColor(trackId)}
+              waveform={waveforms[trackId] ?? null}
+              playheadTime={currentTime + alignmentShift(track)}
+              shortcut={index < 9 ? String(index + 1) : null}
               isActive={activeTrack === trackId}
+              masked={isBlind}
               trimDb={track.loudnessTrimDb}
+              trimStrategy={appliedMatch ? describeMatchStrategy(appliedMatch, trackLabel) : null}
+              trimWarning={platformWarning(track)}
+              alignment={{
+                isReference: loadedTrackIds[0] === trackId,
+                offsetSeconds: track.alignmentOffset,
+                confidence: track.alignmentConfidence,
+                nudgeSeconds: track.alignmentNudge
+              }}
+              onNudgeChange={(seconds) => handleAlignmentNudge(trackId, seconds)}
+              onSeek={(time) => handleSeek(Math.max(0, time - alignmentShift(track)))}
               onSetActive={() => setActiveTrack(trackId)}
               onFileSelect={(file) => handleFileSelect(trackId, file)}
+              onFilesDrop={(files) => {
+                setIsPageDragOver(false);
+                handleFilesDrop(files, trackId);
+              }}
               onVolumeChange={(volume) => handleVolumeChange(trackId, volume)}
+              onChannelLayoutChange={(layout) => void reanalyzeTrack(trackId, layout)}
+              onPolarityToggle={() => handlePolarityToggle(trackId)}
+              onRemove={
+                trackIds.length > MIN_TRACKS && !isBlind ? () => handleRemoveTrack(trackId) : undefined
+              }
             />
           );
         })}
       </section>
 
+      {!isBlind ? (
+        <div className="track-slot-actions">
+          {loadedTrackIds.length ? (
+            <div className="report-export">
+              <span>Export report</span>
+              <button type="button" onClick={() => handleExportReport("json")} className="match-toggle__button">
+                JSON
+              </button>
+              <button type="button" onClick={() => handleExportReport("csv")} className="match-toggle__button">
+                CSV
+              </button>
+              <button type="button" onClick={() => handleExportReport("html")} className="match-toggle__button">
+                HTML
+              </button>
+            </div>
+          ) : null}
+          {trackIds.length < TRACK_SLOT_IDS.length ? (
+            <button type="button" onClick={handleAddTrack} className="match-toggle__button">
+              Add track slot
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <SessionPanel
+        sessions={sessions}
+        usage={storageUsage}
+        busy={sessionBusy}
+        error={sessionError}
+        canSave={loadedTrackIds.length > 0 && !isBlind}
+        defaultName={`Session ${sessions.length + 1}`}
+        onSave={(name) => void handleSaveSession(name)}
+        onOpen={(id) => void handleOpenSession(id)}
+        onDelete={(id) => void handleDeleteSession(id)}
+      />
+
+      <MarkerPanel
+        markers={markers}
+        trackOptions={abxOptions}
+        hideTags={isBlind}
+        canAdd={canPlay}
+        error={markerError}
+        onAdd={() => handleAddMarker(null)}
+        onJump={(time) => handleSeek(Math.min(time, playbackDuration))}
+        onChange={handleMarkerChange}
+        onDelete={handleMarkerDelete}
+        onExport={handleExportMarkers}
+        onImport={(file) => void handleImportMarkers(file)}
+      />
+
+      <AbxPanel
+        session={abxSession}
+        listening={abxListening}
+        canStart={canToggle && abxPair[0] !== abxPair[1] && abxPair.every((id) => tracks[id]?.hasBuffer)}
+        trialCount={abxTrialCount}
+        trackOptions={abxOptions}
+        pair={abxPair}
+        onPairChange={setAbxPair}
+        revealNames={{
+          A: abxSession ? tracks[abxSession.assignment.A]?.name ?? null : null,
+          B: abxSession ? tracks[abxSession.assignment.B]?.name ?? null : null
+        }}
+        onTrialCountChange={(count) => setAbxTrialCount(Math.max(1, Math.min(100, Math.round(count) || 1)))}
+        onStart={handleAbxStart}
+        onListen={handleAbxListen}
+        onAnswer={handleAbxAnswer}
+        onExport={handleAbxExport}
+        onClose={handleAbxClose}
+      />
+
+      {!isBlind ? (
+        <PlatformPanel
+          tracks={loadedTrackIds.map((id) => ({ id, label: trackLabel(id), metrics: tracks[id] }))}
+          activeProfileId={appliedMatch?.kind === "platform" ? appliedMatch.profileId : null}
+          onPreview={handlePlatformPreview}
+        />
+      ) : null}
+
+      {!isBlind ? (
+        <SpectrumPanel
+          series={spectrumSeries}
+          trackOptions={abxOptions}
+          differencePair={spectrumPair}
+          range={loopRegion ? spectrumRange : "file"}
+          canUseLoop={loopRegion !== null}
+          smoothing={spectrumSmoothing}
+          applyTrims={spectrumApplyTrims}
+          busy={spectrumBusy}
+          canAnalyze={loadedTrackIds.length > 0}
+          onDifferencePairChange={setSpectrumPair}
+          onRangeChange={setSpectrumRange}
+          onSmoothingChange={setSpectrumSmoothing}
+          onApplyTrimsChange={setSpectrumApplyTrims}
+          onAnalyze={() => void handleAnalyzeSpectrum()}
+        />
+      ) : null}
+
       <section className="transport" style={{ marginTop: "40px" }}>
         <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
           <h2>Transport</h2>
           <div style={{ opacity: 0.8 }}>
-            <strong>{TRACK_LABEL[activeTrack]}</strong> in focus
+            <strong>{isBlind ? `Blind ${abxListening ?? "A"}` : trackLabel(activeTrack)}</strong> in focus
           </div>
         </header>
 
+        {overviewLayers.length && playbackDuration ? (
+          <div style={{ marginTop: "16px" }}>
+            <Waveform
+              layers={overviewLayers}
+              duration={playbackDuration}
+              currentTime={currentTime}
+              viewStart={overviewStart}
+              viewEnd={overviewStart + overviewSpan}
+              height={96}
+              selection={loopRegion}
+              selectionActive={Boolean(activeLoop)}
+              markers={overviewMarkers}
+              onSeek={(time) => handleSeek(time)}
+              onSelect={handleLoopSelect}
+            />
+            <div className="waveform-zoom">
+              <button
+                type="button"
+                onClick={() =>
+                  setWaveformZoom((zoom) => WAVEFORM_ZOOM_LEVELS[Math.max(0, WAVEFORM_ZOOM_LEVELS.indexOf(zoom) - 1)])
+                }
+                disabled={waveformZoom === WAVEFORM_ZOOM_LEVELS[0]}
+              >
+                −
+              </button>
+              <span>Zoom {waveformZoom}×</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setWaveformZoom(
+                    (zoom) =>
+                      WAVEFORM_ZOOM_LEVELS[
+                        Math.min(WAVEFORM_ZOOM_LEVELS.length - 1, WAVEFORM_ZOOM_LEVELS.indexOf(zoom) + 1)
+                      ]
+                  )
+                }
+                disabled={waveformZoom === WAVEFORM_ZOOM_LEVELS[WAVEFORM_ZOOM_LEVELS.length - 1]}
+              >
+                +
+              </button>
+            </div>
+          </div>
+        ) : null}
+
         <div style={{ marginTop: "16px" }}>
           <input
             type="range"
@@ -549,7 +1876,9 @@ export default function HomePage() {
             max={playbackDuration || 1}
             step={0.01}
             value={Math.min(currentTime, playbackDuration || 0)}
-            onChange={(event) => handleSeek(Number(event.target.value))}
+            onChange={(event) => handleScrub(Number(event.target.value))}
+            onPointerUp={handleScrubEnd}
+            onPointerCancel={handleScrubEnd}
             disabled={!playbackDuration}
           />
           <div style={{ display: "flex", justifyContent: "space-between", fontSize: "0.9rem", opacity: 0.75 }}>
@@ -558,13 +1887,69 @@ export default function HomePage() {
           </div>
         </div>
 
+        {!isBlind && loudnessGraphSeries.length && playbackDuration ? (
+          <LoudnessGraph
+            series={loudnessGraphSeries}
+            duration={playbackDuration}
+            currentTime={currentTime}
+            mode={loudnessGraphMode}
+            applyTrims={loudnessGraphApplyTrims}
+            onModeChange={setLoudnessGraphMode}
+            onApplyTrimsChange={setLoudnessGraphApplyTrims}
+            onSeek={(time) => handleSeek(time)}
+          />
+        ) : null}
+
+        <div className="loop-controls">
+          <button
+            type="button"
+            onClick={toggleLoop}
+            disabled={!loopRegion}
+            className={`loop-controls__toggle${activeLoop ? " active" : ""}`}
+          >
+            Loop {activeLoop ? "on" : "off"} (L)
+          </button>
+          <button type="button" onClick={handleSetLoopIn} disabled={!playbackDuration}>
+            Set in (I)
+          </button>
+          <button type="button" onClick={handleSetLoopOut} disabled={!playbackDuration}>
+            Set out (O)
+          </button>
+          <span style={{ opacity: 0.8 }}>
+            {loopRegion ? `${formatTime(loopRegion.start)} – ${formatTime(loopRegion.end)}` : "No loop set"}
+          </span>
+          {loopRegion ? (
+            <button type="button" onClick={clearLoop}>
+              Clear
+            </button>
+          ) : null}
+          <span className="match-hint">Shift+drag on the waveform to draw a loop.</span>
+        </div>
+
+        <div className="monitor-controls" role="group" aria-label="Monitoring">
+          <span>Monitoring</span>
+          {MONITOR_MODES.map((mode) => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => setMonitorMode(mode.id)}
+              className={monitorMode === mode.id ? "active" : undefined}
+              aria-pressed={monitorMode === mode.id}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+
+        <SwitchControls settings={switchSettings} onChange={setSwitchSettings} />
+
         <div className="transport-controls">
           <button type="button" onClick={handlePlayPause} disabled={!playbackDuration}>
             {isPlaying ? "Pause" : "Play"}
           </button>
           <button
             type="button"
-            onClick={toggleActiveTrack}
+            onClick={toggleFocus}
             disabled={!canToggle}
             className="transport-toggle"
           >
@@ -572,44 +1957,96 @@ export default function HomePage() {
           </button>
           <button
             type="button"
-            onClick={() => handleSeek(0)}
+            onClick={toggleNullMode}
+            disabled={!canToggle || isBlind}
+            className={`transport-null${nullActive ? " active" : ""}`}
+            title="Play the focused track minus the next loaded track"
+          >
+            Null {nullActive ? "on" : "off"} (N)
+          </button>
+          <button
+            type="button"
+            onClick={handleRewind}
             disabled={!playbackDuration}
             className="transport-rewind"
           >
             Rewind
           </button>
+          <button
+            type="button"
+            onClick={() => void runAlignment()}
+            disabled={!canToggle}
+            className="transport-rewind"
+          >
+            Re-detect alignment
+          </button>
         </div>
 
+        <NullReport
+          pairLabel={nullPartner && !isBlind ? `${trackLabel(activeTrack)} − ${trackLabel(nullPartner)}` : null}
+          result={nullReport?.pairKey === `${activeTrack}:${nullPartner}` ? nullReport.result : null}
+          error={nullReport?.pairKey === `${activeTrack}:${nullPartner}` ? nullReport.error : null}
+          busy={nullReport?.busy ?? false}
+          onRun={() => void handleNullReport()}
+        />
+
         <div className="shortcut-grid">
           <div>
             <span className="keycap">Space</span>
             Play / Pause
           </div>
           <div>
-            <span className="keycap">A</span>
-            Focus Track A
+            <span className="keycap">1–9</span>
+            Focus track by slot
           </div>
           <div>
+            <span className="keycap">A</span>
             <span className="keycap">B</span>
-            Focus Track B
+            Focus Track A / B
           </div>
           <div>
             <span className="keycap">T</span>
-            Toggle focus
+            Cycle focus
+          </div>
+          <div>
+            <span className="keycap">N</span>
+            Null (focused minus next)
+          </div>
+          <div>
+            <span className="keycap">M</span>
+            Marker (Shift: focused track)
+          </div>
+          <div>
+            <span className="keycap">X</span>
+            Blind X (ABX only)
+          </div>
+          <div>
+            <span className="keycap">I</span>
+            <span className="keycap">O</span>
+            Loop in / out
+          </div>
+          <div>
+            <span className="keycap">L</span>
+            Toggle loop
+          </div>
+          <div>
+            <span className="keycap">W</span>
+            Rewind (to loop start)
           </div>
         </div>
       </section>
 
+      {isPageDragOver ? <div className="drop-overlay">Drop audio files to fill empty track slots</div> : null}
+
       {!canPlay ? (
         <div className="empty-state">
-          <p style={{ margin: 0 }}>Waiting for audio files. Drop in two versions to hear instant A/B switches.</p>
+          <p style={{ margin: 0 }}>Waiting for audio files. Drop in two or more versions to hear instant switches.</p>
         </div>
       ) : null}
 
       <div style={{ marginTop: "48px", fontSize: "0.85rem", opacity: 0.7 }}>
         <p style={{ margin: 0 }}>
-          Pro tip: keep filenames descriptive or toggle blind mode in a future update to avoid bias when comparing
-          renders.
+          Pro tip: keep filenames descriptive, and run a blind ABX session to avoid bias when comparing renders.
         </p>
       </div>
     </main>
@@ -0,0 +1,283 @@
+import { findChannelLayout, type ChannelLayoutId } from "../lib/channelLayouts";
+import type { LoudnessMetrics } from "../lib/loudnessTypes";
+import { measureChannels } from "./measure";
+
+type CheckedMetric = "lufsIntegrated" | "shortTermMaxLufs" | "momentaryMaxLufs" | "loudnessRange" | "truePeakDb";
+
+interface Expectation {
+  metric: CheckedMetric;
+  expected: number;
+  /** Allowed deviation below and above `expected`. */
+  tolerance: [number, number];
+}
+
+interface Segment {
+  /** Level of a full-scale-referenced sine; a -23 dBFS stereo tone reads -23 LUFS. */
+  dbfs: number;
+  seconds: number;
+}
+
+export interface ConformanceCase {
+  id: string;
+  description: string;
+  sampleRate: number;
+  /**
+   * Builds the channel data on demand so only one case is held in memory at a
+   * time. Channel weights follow the layout implied by the channel count.
+   */
+  signal: () => Float32Array[];
+  expectations: Expectation[];
+}
+
+export interface ExpectationResult extends Expectation {
+  measured: number | null;
+  passed: boolean;
+}
+
+export interface ConformanceResult {
+  id: string;
+  description: string;
+  results: ExpectationResult[];
+  passed: boolean;
+}
+
+// Tolerances from EBU Tech 3341 (integrated, short-term, momentary, true peak) and Tech 3342 (LRA).
+const LOUDNESS_TOLERANCE: [number, number] = [0.1, 0.1];
+const LRA_TOLERANCE: [number, number] = [1, 1];
+const TRUE_PEAK_TOLERANCE: [number, number] = [0.4, 0.2];
+
+const SILENCE = Number.NEGATIVE_INFINITY;
+
+/** A continuous sine whose level steps between segments without a phase jump. */
+const sineSegments = (
+  sampleRate: number,
+  segments: Segment[],
+  frequency = 1000,
+  phase = 0
+): Float32Array => {
+  const lengths = segments.map(({ seconds }) => Math.round(seconds * sampleRate));
+  const samples = new Float32Array(lengths.reduce((sum, length) => sum + length, 0));
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+
+  let offset = 0;
+  segments.forEach(({ dbfs }, index) => {
+    const amplitude = Math.pow(10, dbfs / 20);
+    for (let i = offset; i < offset + lengths[index]; i += 1) {
+      samples[i] = amplitude * Math.sin(omega * i + phase);
+    }
+    offset += lengths[index];
+  });
+  return samples;
+};
+
+const stereo = (sampleRate: number, segments: Segment[]) => () => {
+  const channel = sineSegments(sampleRate, segments);
+  return [channel, channel.slice()];
+};
+
+/** One 20 s tone per speaker of the layout; speakers without a level stay silent. */
+const surround = (layout: ChannelLayoutId, levels: Record<string, number>) => () =>
+  findChannelLayout(layout).speakers.map(({ label }) =>
+    sineSegments(48000, [{ dbfs: levels[label] ?? SILENCE, seconds: 20 }])
+  );
+
+const integrated = (expected: number): Expectation => ({
+  metric: "lufsIntegrated",
+  expected,
+  tolerance: LOUDNESS_TOLERANCE
+});
+
+const loudnessRange = (expected: number): Expectation => ({
+  metric: "loudnessRange",
+  expected,
+  tolerance: LRA_TOLERANCE
+});
+
+const repeat = (segments: Segment[], times: number) =>
+  new Array(times).fill(segments).reduce<Segment[]>((all, next) => all.concat(next), []);
+
+export const CONFORMANCE_CASES: ConformanceCase[] = [
+  {
+    id: "3341-1",
+    description: "Stereo 1 kHz, -23 dBFS, 20 s",
+    sampleRate: 48000,
+    signal: stereo(48000, [{ dbfs: -23, seconds: 20 }]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-2",
+    description: "Stereo 1 kHz, -33 dBFS, 20 s",
+    sampleRate: 48000,
+    signal: stereo(48000, [{ dbfs: -33, seconds: 20 }]),
+    expectations: [integrated(-33)]
+  },
+  {
+    id: "3341-3",
+    description: "Relative gate: -36 / -23 / -36 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -36, seconds: 10 },
+      { dbfs: -23, seconds: 60 },
+      { dbfs: -36, seconds: 10 }
+    ]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-4",
+    description: "Both gates: -72 / -36 / -23 / -36 / -72 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -72, seconds: 10 },
+      { dbfs: -36, seconds: 10 },
+      { dbfs: -23, seconds: 60 },
+      { dbfs: -36, seconds: 10 },
+      { dbfs: -72, seconds: 10 }
+    ]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-5",
+    description: "Level steps: -26 / -20 / -26 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -26, seconds: 20 },
+      { dbfs: -20, seconds: 20.1 },
+      { dbfs: -26, seconds: 20 }
+    ]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-6",
+    description: "5.1: L/R -28, C -24, Ls/Rs -30 dBFS, LFE silent",
+    sampleRate: 48000,
+    signal: surround("5.1", { FL: -28, FR: -28, FC: -24, BL: -30, BR: -30 }),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-6@7.1",
+    description: "7.1: case 6 on the side surrounds, rears silent",
+    sampleRate: 48000,
+    signal: surround("7.1", { FL: -28, FR: -28, FC: -24, SL: -30, SR: -30 }),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-6@7.1.4",
+    description: "7.1.4: case 6 on the side surrounds, rears and heights silent",
+    sampleRate: 48000,
+    signal: surround("7.1.4", { FL: -28, FR: -28, FC: -24, SL: -30, SR: -30 }),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-9",
+    description: "Short-term: -20 dBFS 1.34 s / -30 dBFS 1.66 s, x5",
+    sampleRate: 48000,
+    signal: stereo(
+      48000,
+      repeat(
+        [
+          { dbfs: -20, seconds: 1.34 },
+          { dbfs: -30, seconds: 1.66 }
+        ],
+        5
+      )
+    ),
+    expectations: [{ metric: "shortTermMaxLufs", expected: -23, tolerance: LOUDNESS_TOLERANCE }]
+  },
+  {
+    id: "momentary",
+    description: "Momentary: 400 ms of -23 dBFS between silence",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: SILENCE, seconds: 2 },
+      { dbfs: -23, seconds: 0.4 },
+      { dbfs: SILENCE, seconds: 2 }
+    ]),
+    expectations: [{ metric: "momentaryMaxLufs", expected: -23, tolerance: LOUDNESS_TOLERANCE }]
+  },
+  {
+    id: "3341-1@44.1k",
+    description: "Stereo 1 kHz, -23 dBFS at 44.1 kHz",
+    sampleRate: 44100,
+    signal: stereo(44100, [{ dbfs: -23, seconds: 20 }]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "3341-1@96k",
+    description: "Stereo 1 kHz, -23 dBFS at 96 kHz",
+    sampleRate: 96000,
+    signal: stereo(96000, [{ dbfs: -23, seconds: 20 }]),
+    expectations: [integrated(-23)]
+  },
+  {
+    id: "true-peak",
+    description: "fs/4 sine, -6 dBFS, 45 degree phase (samples miss the crest)",
+    sampleRate: 48000,
+    signal: () => {
+      const channel = sineSegments(48000, [{ dbfs: -6, seconds: 1 }], 12000, Math.PI / 4);
+      return [channel, channel.slice()];
+    },
+    expectations: [{ metric: "truePeakDb", expected: -6, tolerance: TRUE_PEAK_TOLERANCE }]
+  },
+  {
+    id: "3342-1",
+    description: "LRA: -20 / -30 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -20, seconds: 20 },
+      { dbfs: -30, seconds: 20 }
+    ]),
+    expectations: [loudnessRange(10)]
+  },
+  {
+    id: "3342-2",
+    description: "LRA: -20 / -15 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -20, seconds: 20 },
+      { dbfs: -15, seconds: 20 }
+    ]),
+    expectations: [loudnessRange(5)]
+  },
+  {
+    id: "3342-3",
+    description: "LRA: -40 / -20 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -40, seconds: 20 },
+      { dbfs: -20, seconds: 20 }
+    ]),
+    expectations: [loudnessRange(20)]
+  },
+  {
+    id: "3342-4",
+    description: "LRA: -50 / -35 / -20 / -35 / -50 dBFS",
+    sampleRate: 48000,
+    signal: stereo(48000, [
+      { dbfs: -50, seconds: 20 },
+      { dbfs: -35, seconds: 20 },
+      { dbfs: -20, seconds: 20 },
+      { dbfs: -35, seconds: 20 },
+      { dbfs: -50, seconds: 20 }
+    ]),
+    expectations: [loudnessRange(15)]
+  }
+];
+
+const checkExpectation = (metrics: LoudnessMetrics, expectation: Expectation): ExpectationResult => {
+  const measured = metrics[expectation.metric];
+  const [below, above] = expectation.tolerance;
+  const passed =
+    measured !== null && measured >= expectation.expected - below && measured <= expectation.expected + above;
+  return { ...expectation, measured, passed };
+};
+
+export function runConformanceCase(testCase: ConformanceCase): ConformanceResult {
+  const metrics = measureChannels(testCase.signal(), testCase.sampleRate);
+  const results = testCase.expectations.map((expectation) => checkExpectation(metrics, expectation));
+  return {
+    id: testCase.id,
+    description: testCase.description,
+    results,
+    passed: results.every((result) => result.passed)
+  };
+}
@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+import { CONFORMANCE_CASES, runConformanceCase } from "./conformance";
+import { compareMeasurements, measureFile, type FileMeasurement } from "./measure";
+import {
+  comparisonJson,
+  comparisonTable,
+  conformanceJson,
+  conformanceTable,
+  measurementJson,
+  measurementTable,
+  type CheckedComparison,
+  type CheckedMeasurement
+} from "./output";
+
+const EXIT_OK = 0;
+const EXIT_THRESHOLD = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage:
+  compare-tracks analyze <file...> [options]
+  compare-tracks compare <reference> <file...> [options]
+  compare-tracks conformance [case...] [--json]
+
+Reads uncompressed WAV and AIFF files and measures them per ITU-R BS.1770.
+conformance runs the meter against synthesized EBU Tech 3341/3342 signals.
+
+Options:
+  --json                 Print JSON instead of a table
+  --min-lufs <LUFS>      Fail when integrated loudness is below this
+  --max-lufs <LUFS>      Fail when integrated loudness is above this
+  --max-true-peak <dBTP> Fail when true peak is above this
+  --max-lra <LU>         Fail when loudness range is above this
+  --max-lufs-diff <LU>   compare: fail when loudness differs from the reference by more
+  --max-offset-ms <ms>   compare: fail when alignment offset exceeds this
+
+Exit codes: 0 all checks passed, 1 a threshold was exceeded, 2 usage or read error.`;
+
+interface Thresholds {
+  minLufs?: number;
+  maxLufs?: number;
+  maxTruePeak?: number;
+  maxLra?: number;
+  maxLufsDiff?: number;
+  maxOffsetMs?: number;
+}
+
+const THRESHOLD_FLAGS: Record<string, keyof Thresholds> = {
+  "--min-lufs": "minLufs",
+  "--max-lufs": "maxLufs",
+  "--max-true-peak": "maxTruePeak",
+  "--max-lra": "maxLra",
+  "--max-lufs-diff": "maxLufsDiff",
+  "--max-offset-ms": "maxOffsetMs"
+};
+
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]) => {
+  const files: string[] = [];
+  const thresholds: Thresholds = {};
+  let json = false;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (THRESHOLD_FLAGS[arg]) {
+      const value = Number(args[i + 1]);
+      if (args[i + 1] === undefined || !Number.isFinite(value)) {
+        throw new UsageError(`${arg} expects a number`);
+      }
+      thresholds[THRESHOLD_FLAGS[arg]] = value;
+      i += 1;
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { files, thresholds, json };
+};
+
+const checkMeasurement = (measurement: FileMeasurement, thresholds: Thresholds): CheckedMeasurement => {
+  const { lufsIntegrated, truePeakDb, loudnessRange } = measurement.metrics;
+  const failures: string[] = [];
+
+  if (thresholds.minLufs !== undefined && (lufsIntegrated === null || lufsIntegrated < thresholds.minLufs)) {
+    failures.push(`loudness below ${thresholds.minLufs} LUFS`);
+  }
+  if (thresholds.maxLufs !== undefined && lufsIntegrated !== null && lufsIntegrated > thresholds.maxLufs) {
+    failures.push(`loudness above ${thresholds.maxLufs} LUFS`);
+  }
+  if (thresholds.maxTruePeak !== undefined && truePeakDb !== null && truePeakDb > thresholds.maxTruePeak) {
+    failures.push(`true peak above ${thresholds.maxTruePeak} dBTP`);
+  }
+  if (thresholds.maxLra !== undefined && loudnessRange !== null && loudnessRange > thresholds.maxLra) {
+    failures.push(`LRA above ${thresholds.maxLra} LU`);
+  }
+
+  return { ...measurement, failures };
+};
+
+const checkComparison = (
+  reference: FileMeasurement,
+  target: CheckedMeasurement,
+  thresholds: Thresholds
+): CheckedComparison => {
+  const comparison = compareMeasurements(reference, target);
+  const failures: string[] = [];
+
+  if (
+    thresholds.maxLufsDiff !== undefined &&
+    (comparison.lufsDifference === null || Math.abs(comparison.lufsDifference) > thresholds.maxLufsDiff)
+  ) {
+    failures.push(`loudness differs by more than ${thresholds.maxLufsDiff} LU`);
+  }
+  if (
+    thresholds.maxOffsetMs !== undefined &&
+    Math.abs(comparison.alignment.offsetSeconds * 1000) > thresholds.maxOffsetMs
+  ) {
+    failures.push(`offset exceeds ${thresholds.maxOffsetMs} ms`);
+  }
+
+  return { ...comparison, target, failures };
+};
+
+const measureAll = async (files: string[], thresholds: Thresholds) => {
+  const measurements: CheckedMeasurement[] = [];
+  // Sequential on purpose: decoded masters can be large.
+  for (const file of files) {
+    try {
+      measurements.push(checkMeasurement(await measureFile(file), thresholds));
+    } catch (error) {
+      throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return measurements;
+};
+
+async function runAnalyze(args: string[]): Promise<number> {
+  const { files, thresholds, json } = parseArgs(args);
+  if (!files.length) {
+    throw new UsageError("analyze needs at least one file");
+  }
+
+  const measurements = await measureAll(files, thresholds);
+  const passed = measurements.every((measurement) => !measurement.failures.length);
+
+  if (json) {
+    console.log(JSON.stringify({ files: measurements.map(measurementJson), passed }, null, 2));
+  } else {
+    console.log(measurementTable(measurements));
+  }
+  return passed ? EXIT_OK : EXIT_THRESHOLD;
+}
+
+async function runCompare(args: string[]): Promise<number> {
+  const { files, thresholds, json } = parseArgs(args);
+  if (files.length < 2) {
+    throw new UsageError("compare needs a reference and at least one other file");
+  }
+
+  const measurements = await measureAll(files, thresholds);
+  const [reference, ...targets] = measurements;
+  const comparisons = targets.map((target) => checkComparison(reference, target, thresholds));
+  const passed =
+    !reference.failures.length &&
+    comparisons.every((comparison) => !comparison.failures.length && !comparison.target.failures.length);
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        { files: measurements.map(measurementJson), comparisons: comparisons.map(comparisonJson), passed },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(measurementTable(measurements));
+    console.log("");
+    console.log(comparisonTable(comparisons));
+  }
+  return passed ? EXIT_OK : EXIT_THRESHOLD;
+}
+
+async function runConformance(args: string[]): Promise<number> {
+  const { files: ids, json } = parseArgs(args);
+  const unknown = ids.filter((id) => !CONFORMANCE_CASES.some((testCase) => testCase.id === id));
+  if (unknown.length) {
+    throw new UsageError(`Unknown conformance case ${unknown.join(", ")}`);
+  }
+
+  const cases = ids.length ? CONFORMANCE_CASES.filter((testCase) => ids.includes(testCase.id)) : CONFORMANCE_CASES;
+  const results = cases.map(runConformanceCase);
+  const passed = results.every((result) => result.passed);
+
+  if (json) {
+    console.log(JSON.stringify({ cases: results.map(conformanceJson), passed }, null, 2));
+  } else {
+    console.log(conformanceTable(results));
+  }
+  return passed ? EXIT_OK : EXIT_THRESHOLD;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  analyze: runAnalyze,
+  compare: runCompare,
+  conformance: runConformance
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === "--help" || command === "-h") {
+    console.log(USAGE);
+    return command ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    throw new UsageError(`Unknown command ${command}`);
+  }
+  return run(args);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exitCode = EXIT_USAGE;
+  }
+);
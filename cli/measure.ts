@@ -0,0 +1,78 @@
+import { readFile } from "fs/promises";
+import { computeAlignmentEnvelope, detectAlignmentOffset } from "../lib/alignmentCore";
+import { applyKWeighting } from "../lib/kWeighting";
+import {
+  channelWeightsForLayout,
+  detectChannelLayout,
+  findChannelLayout,
+  type ChannelLayoutId
+} from "../lib/channelLayouts";
+import { computeLoudnessMetrics, createLoudnessPayload } from "../lib/loudnessCore";
+import type { AlignmentEnvelope, AlignmentResult, LoudnessMetrics } from "../lib/loudnessTypes";
+import { decodePcm, describePcmFormat } from "../lib/pcmDecoder";
+
+export interface FileMeasurement {
+  file: string;
+  sampleRate: number;
+  bitDepth: number;
+  /** e.g. "BWF · 24-bit PCM · Stereo". */
+  format: string;
+  channelCount: number;
+  /** Speaker layout the channel weights came from. */
+  layout: string;
+  durationSeconds: number;
+  metrics: LoudnessMetrics;
+  envelope: AlignmentEnvelope;
+}
+
+export interface Comparison {
+  reference: FileMeasurement;
+  target: FileMeasurement;
+  /** Target minus reference integrated loudness. */
+  lufsDifference: number | null;
+  truePeakDifference: number | null;
+  alignment: AlignmentResult;
+}
+
+/** BS.1770 metrics for raw channel data, weighted at its own rate; the browser resamples to 48 kHz first. */
+export function measureChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  layout: ChannelLayoutId = detectChannelLayout(channels.length)
+): LoudnessMetrics {
+  const channelWeights = channelWeightsForLayout(layout, channels.length);
+  return computeLoudnessMetrics(
+    createLoudnessPayload(applyKWeighting(channels, sampleRate), channels, channelWeights, sampleRate, sampleRate)
+  );
+}
+
+export async function measureFile(file: string): Promise<FileMeasurement> {
+  const decoded = decodePcm(await readFile(file));
+  const { channels, length, sampleRate } = decoded;
+  const layout = detectChannelLayout(channels.length, decoded.channelLabels);
+
+  return {
+    file,
+    sampleRate,
+    bitDepth: decoded.bitDepth,
+    format: describePcmFormat(decoded),
+    channelCount: channels.length,
+    layout: findChannelLayout(layout).label,
+    durationSeconds: sampleRate > 0 ? length / sampleRate : 0,
+    metrics: measureChannels(channels, sampleRate, layout),
+    envelope: computeAlignmentEnvelope(channels, length, sampleRate)
+  };
+}
+
+const difference = (value: number | null, reference: number | null) =>
+  value === null || reference === null ? null : value - reference;
+
+export function compareMeasurements(reference: FileMeasurement, target: FileMeasurement): Comparison {
+  return {
+    reference,
+    target,
+    lufsDifference: difference(target.metrics.lufsIntegrated, reference.metrics.lufsIntegrated),
+    truePeakDifference: difference(target.metrics.truePeakDb, reference.metrics.truePeakDb),
+    alignment: detectAlignmentOffset(reference.envelope, target.envelope)
+  };
+}
@@ -0,0 +1,107 @@
+import { basename } from "path";
+import { formatDb } from "../lib/formatDb";
+import type { ConformanceResult } from "./conformance";
+import type { Comparison, FileMeasurement } from "./measure";
+
+export interface CheckedMeasurement extends FileMeasurement {
+  failures: string[];
+}
+
+export interface CheckedComparison extends Comparison {
+  target: CheckedMeasurement;
+  failures: string[];
+}
+
+const round = (value: number | null, digits = 2) =>
+  value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+
+const formatSigned = (value: number | null, suffix: string) =>
+  value === null ? "--" : `${value > 0 ? "+" : ""}${value.toFixed(1)} ${suffix}`;
+
+const status = (failures: string[]) => (failures.length ? `FAIL: ${failures.join("; ")}` : "ok");
+
+export function renderTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
+
+export function measurementTable(measurements: CheckedMeasurement[]): string {
+  return renderTable([
+    ["File", "Integrated", "Short-term max", "Momentary max", "LRA", "Sample peak", "True peak", "Status"],
+    ...measurements.map(({ file, metrics, failures }) => [
+      basename(file),
+      formatDb(metrics.lufsIntegrated, "LUFS"),
+      formatDb(metrics.shortTermMaxLufs, "LUFS"),
+      formatDb(metrics.momentaryMaxLufs, "LUFS"),
+      formatDb(metrics.loudnessRange, "LU"),
+      formatDb(metrics.peakDb, "dBFS"),
+      formatDb(metrics.truePeakDb, "dBTP"),
+      status(failures)
+    ])
+  ]);
+}
+
+export function comparisonTable(comparisons: CheckedComparison[]): string {
+  return renderTable([
+    ["File", "vs", "Loudness diff", "True peak diff", "Offset", "Confidence", "Status"],
+    ...comparisons.map(({ reference, target, lufsDifference, truePeakDifference, alignment, failures }) => [
+      basename(target.file),
+      basename(reference.file),
+      formatSigned(lufsDifference, "LU"),
+      formatSigned(truePeakDifference, "dB"),
+      `${alignment.offsetSeconds >= 0 ? "+" : ""}${(alignment.offsetSeconds * 1000).toFixed(2)} ms`,
+      `${Math.round(alignment.confidence * 100)}%`,
+      status([...target.failures, ...failures])
+    ])
+  ]);
+}
+
+const METRIC_UNITS: Record<string, string> = {
+  lufsIntegrated: "LUFS",
+  shortTermMaxLufs: "LUFS",
+  momentaryMaxLufs: "LUFS",
+  loudnessRange: "LU",
+  truePeakDb: "dBTP"
+};
+
+export function conformanceTable(results: ConformanceResult[]): string {
+  return renderTable([
+    ["Case", "Signal", "Metric", "Expected", "Measured", "Status"],
+    ...results.flatMap(({ id, description, results: checks }) =>
+      checks.map(({ metric, expected, tolerance: [below, above], measured, passed }) => [
+        id,
+        description,
+        metric,
+        `${expected.toFixed(1)} ${below === above ? `±${below}` : `-${below}/+${above}`} ${METRIC_UNITS[metric]}`,
+        measured === null ? "--" : `${measured.toFixed(2)} ${METRIC_UNITS[metric]}`,
+        passed ? "ok" : "FAIL"
+      ])
+    )
+  ]);
+}
+
+export const conformanceJson = ({ results, ...rest }: ConformanceResult) => ({
+  ...rest,
+  results: results.map((result) => ({ ...result, measured: round(result.measured, 3) }))
+});
+
+export const measurementJson = ({ envelope: _envelope, metrics, ...rest }: CheckedMeasurement) => ({
+  ...rest,
+  durationSeconds: round(rest.durationSeconds, 3),
+  metrics: {
+    ...metrics,
+    truePeakChannelsDb: metrics.truePeakChannelsDb.map((value) => round(value))
+  }
+});
+
+export const comparisonJson = (comparison: CheckedComparison) => ({
+  reference: comparison.reference.file,
+  file: comparison.target.file,
+  lufsDifference: round(comparison.lufsDifference),
+  truePeakDifference: round(comparison.truePeakDifference),
+  offsetSeconds: round(comparison.alignment.offsetSeconds, 6),
+  confidence: round(comparison.alignment.confidence),
+  failures: comparison.failures
+});
@@ -0,0 +1,182 @@
+"use client";
+
+import { useId } from "react";
+import {
+  ABX_SIGNIFICANCE,
+  scoreAbxSession,
+  type AbxLabel,
+  type AbxSession,
+  type AbxSource
+} from "@/lib/abx";
+
+export interface AbxPanelProps {
+  session: AbxSession | null;
+  listening: AbxSource | null;
+  canStart: boolean;
+  trialCount: number;
+  trackOptions: { id: string; label: string }[];
+  pair: [string, string];
+  revealNames: Record<AbxLabel, string | null>;
+  onTrialCountChange: (count: number) => void;
+  onPairChange: (pair: [string, string]) => void;
+  onStart: () => void;
+  onListen: (source: AbxSource) => void;
+  onAnswer: (answer: AbxLabel) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const SOURCES: AbxSource[] = ["A", "B", "X"];
+
+const formatPValue = (pValue: number | null) => {
+  if (pValue === null) return "--";
+  return pValue < 0.001 ? "< 0.001" : pValue.toFixed(3);
+};
+
+export function AbxPanel({
+  session,
+  listening,
+  canStart,
+  trialCount,
+  trackOptions,
+  pair,
+  revealNames,
+  onTrialCountChange,
+  onPairChange,
+  onStart,
+  onListen,
+  onAnswer,
+  onExport,
+  onClose
+}: AbxPanelProps) {
+  const inputId = useId();
+
+  if (!session) {
+    return (
+      <section className="abx-panel">
+        <h2>Blind ABX test</h2>
+        <p className="match-hint" style={{ marginTop: 0 }}>
+          Hides which file is A or B, then asks you to identify a random X in each trial.
+        </p>
+        <div className="abx-panel__row">
+          <label htmlFor={`${inputId}-first`}>Compare</label>
+          <select
+            id={`${inputId}-first`}
+            value={pair[0]}
+            onChange={(event) => onPairChange([event.target.value, pair[1]])}
+          >
+            {trackOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <label htmlFor={`${inputId}-second`}>against</label>
+          <select
+            id={`${inputId}-second`}
+            value={pair[1]}
+            onChange={(event) => onPairChange([pair[0], event.target.value])}
+          >
+            {trackOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="abx-panel__row">
+          <label htmlFor={inputId}>Trials</label>
+          <input
+            id={inputId}
+            type="number"
+            min={1}
+            max={100}
+            value={trialCount}
+            onChange={(event) => onTrialCountChange(Number(event.target.value))}
+            style={{ width: "80px" }}
+          />
+          <button type="button" onClick={onStart} disabled={!canStart} className="match-toggle__button">
+            Start blind session
+          </button>
+        </div>
+        {!canStart ? (
+          <p className="match-hint" style={{ marginBottom: 0 }}>Load two different tracks to start a blind session.</p>
+        ) : null}
+      </section>
+    );
+  }
+
+  const score = scoreAbxSession(session);
+  const isComplete = session.completedAt !== null;
+  const trialNumber = Math.min(session.currentTrial + 1, session.trials.length);
+  const significant = score.pValue !== null && score.pValue < ABX_SIGNIFICANCE;
+
+  return (
+    <section className="abx-panel">
+      <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h2 style={{ margin: 0 }}>Blind ABX test</h2>
+        <span className="status-badge">
+          {isComplete ? "Complete" : `Trial ${trialNumber} / ${session.trials.length}`}
+        </span>
+      </header>
+
+      {isComplete ? (
+        <div style={{ marginTop: "16px" }}>
+          <div className="track-meta">
+            <span>Score</span>
+            <span>
+              {score.correct} / {score.answered}
+            </span>
+            <span>p-value</span>
+            <span>{formatPValue(score.pValue)}</span>
+            <span>A was</span>
+            <span>{revealNames.A ?? "--"}</span>
+            <span>B was</span>
+            <span>{revealNames.B ?? "--"}</span>
+          </div>
+          <p className="match-hint">
+            {significant
+              ? `Significant at p < ${ABX_SIGNIFICANCE}: you reliably heard a difference.`
+              : `Not significant at p < ${ABX_SIGNIFICANCE}: the result is consistent with guessing.`}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="abx-panel__row">
+            {SOURCES.map((source) => (
+              <button
+                key={source}
+                type="button"
+                onClick={() => onListen(source)}
+                className={`abx-panel__source${listening === source ? " active" : ""}`}
+              >
+                {source}
+              </button>
+            ))}
+          </div>
+          <div className="abx-panel__row">
+            <span>X is…</span>
+            <button type="button" onClick={() => onAnswer("A")} className="match-toggle__button">
+              A
+            </button>
+            <button type="button" onClick={() => onAnswer("B")} className="match-toggle__button">
+              B
+            </button>
+          </div>
+          <p className="match-hint" style={{ marginBottom: 0 }}>
+            {score.answered} answered so far. Track names, loudness and trims stay hidden until the session ends.
+          </p>
+        </>
+      )}
+
+      <div className="abx-panel__row">
+        <button type="button" onClick={onExport} className="match-toggle__button" disabled={!isComplete}>
+          Export trial log (JSON)
+        </button>
+        <button type="button" onClick={onClose} className="match-toggle__button">
+          {isComplete ? "Close" : "Abort session"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { MouseEvent, useId, useMemo } from "react";
+import type { LoudnessCurves } from "@/lib/loudnessCurves";
+
+export type LoudnessGraphMode = "shortTerm" | "momentary" | "both";
+
+export interface LoudnessGraphSeries {
+  id: string;
+  label: string;
+  color: string;
+  curves: LoudnessCurves;
+  /** Where the file's 0 s sits on the shared timeline (alignment applied). */
+  offsetSeconds: number;
+  /** Gain applied on playback, added when trims are included. */
+  gainDb: number;
+}
+
+export interface LoudnessGraphProps {
+  series: LoudnessGraphSeries[];
+  duration: number;
+  currentTime: number;
+  mode: LoudnessGraphMode;
+  applyTrims: boolean;
+  onModeChange: (mode: LoudnessGraphMode) => void;
+  onApplyTrimsChange: (apply: boolean) => void;
+  onSeek: (time: number) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 160;
+const RANGE_LU = 30;
+const GRID_STEP_LU = 6;
+
+// Each x pixel keeps the loudest hop it covers, so short peaks survive long files.
+const buildPath = (
+  values: Float32Array,
+  stepSeconds: number,
+  offsetSeconds: number,
+  duration: number,
+  yFor: (value: number) => number
+) => {
+  const columns = new Float32Array(WIDTH).fill(Number.NEGATIVE_INFINITY);
+  for (let hop = 0; hop < values.length; hop += 1) {
+    const column = Math.floor((((hop + 1) * stepSeconds + offsetSeconds) / duration) * WIDTH);
+    if (column >= 0 && column < WIDTH && values[hop] > columns[column]) {
+      columns[column] = values[hop];
+    }
+  }
+
+  let path = "";
+  let drawing = false;
+  for (let column = 0; column < WIDTH; column += 1) {
+    if (!Number.isFinite(columns[column])) {
+      drawing = false;
+      continue;
+    }
+    path += `${drawing ? "L" : "M"}${column} ${yFor(columns[column]).toFixed(1)}`;
+    drawing = true;
+  }
+  return path;
+};
+
+const curveMax = (values: Float32Array) =>
+  values.reduce((max, value) => (value > max ? value : max), Number.NEGATIVE_INFINITY);
+
+export function LoudnessGraph({
+  series,
+  duration,
+  currentTime,
+  mode,
+  applyTrims,
+  onModeChange,
+  onApplyTrimsChange,
+  onSeek
+}: LoudnessGraphProps) {
+  const inputId = useId();
+
+  // Paths only depend on the data, not the playhead, so playback doesn't rebuild them every frame.
+  const { top, paths } = useMemo(() => {
+    const curves = series.flatMap((entry) => {
+      const gainDb = applyTrims ? entry.gainDb : 0;
+      const shown: { key: string; values: Float32Array }[] = [];
+      if (mode !== "shortTerm") shown.push({ key: "momentary", values: entry.curves.momentary });
+      if (mode !== "momentary") shown.push({ key: "shortTerm", values: entry.curves.shortTerm });
+      return shown.map(({ key, values }) => ({ entry, key, values: values.map((value) => value + gainDb) }));
+    });
+
+    const peak = curves.reduce((max, { values }) => Math.max(max, curveMax(values)), Number.NEGATIVE_INFINITY);
+    const scaleTop = Number.isFinite(peak) ? Math.ceil(peak / GRID_STEP_LU) * GRID_STEP_LU : 0;
+    const yFor = (value: number) => Math.max(0, Math.min(HEIGHT, ((scaleTop - value) / RANGE_LU) * HEIGHT));
+
+    return {
+      top: scaleTop,
+      paths: curves.map(({ entry, key, values }) => ({
+        id: `${entry.id}-${key}`,
+        color: entry.color,
+        faded: mode === "both" && key === "momentary",
+        d: buildPath(values, entry.curves.stepSeconds, entry.offsetSeconds, duration, yFor)
+      }))
+    };
+  }, [applyTrims, duration, mode, series]);
+
+  const gridLevels = Array.from({ length: RANGE_LU / GRID_STEP_LU - 1 }, (_, index) => top - (index + 1) * GRID_STEP_LU);
+  const playheadX = duration > 0 ? (Math.min(currentTime, duration) / duration) * WIDTH : 0;
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width <= 0) return;
+    onSeek(Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)) * duration);
+  };
+
+  return (
+    <div className="loudness-graph">
+      <div className="abx-panel__row">
+        <label htmlFor={`${inputId}-mode`}>Loudness</label>
+        <select
+          id={`${inputId}-mode`}
+          value={mode}
+          onChange={(event) => onModeChange(event.target.value as LoudnessGraphMode)}
+        >
+          <option value="shortTerm">Short-term (3 s)</option>
+          <option value="momentary">Momentary (400 ms)</option>
+          <option value="both">Both</option>
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={applyTrims}
+            onChange={(event) => onApplyTrimsChange(event.target.checked)}
+          />{" "}
+          Include trims
+        </label>
+      </div>
+      <svg
+        className="spectrum-panel__plot loudness-graph__plot"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onClick={handleClick}
+      >
+        {gridLevels.map((level) => {
+          const y = ((top - level) / RANGE_LU) * HEIGHT;
+          return <line key={level} className="spectrum-panel__grid" x1={0} x2={WIDTH} y1={y} y2={y} />;
+        })}
+        {paths.map((path) => (
+          <path
+            key={path.id}
+            d={path.d}
+            stroke={path.color}
+            className={`spectrum-panel__curve${path.faded ? " loudness-graph__curve--momentary" : ""}`}
+          />
+        ))}
+        <line className="loudness-graph__playhead" x1={playheadX} x2={playheadX} y1={0} y2={HEIGHT} />
+      </svg>
+      <p className="match-hint">
+        Top of scale {top} LUFS, {GRID_STEP_LU} LU grid{applyTrims ? ", trims included" : ""}.{" "}
+        {series.map((entry) => (
+          <span key={entry.id} style={{ color: entry.color, marginRight: 10 }}>
+            {entry.label}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
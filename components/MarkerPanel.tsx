@@ -0,0 +1,121 @@
+"use client";
+
+import { ChangeEvent, useRef } from "react";
+import { formatTime } from "@/lib/formatTime";
+import type { Marker } from "@/lib/markers";
+
+export interface MarkerPanelProps {
+  markers: Marker[];
+  trackOptions: { id: string; label: string }[];
+  /** Blind ABX hides track tags so notes can't reveal the assignment. */
+  hideTags: boolean;
+  canAdd: boolean;
+  error: string | null;
+  onAdd: () => void;
+  onJump: (time: number) => void;
+  onChange: (id: string, patch: Partial<Pick<Marker, "text" | "trackId">>) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export function MarkerPanel({
+  markers,
+  trackOptions,
+  hideTags,
+  canAdd,
+  error,
+  onAdd,
+  onJump,
+  onChange,
+  onDelete,
+  onExport,
+  onImport
+}: MarkerPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = "";
+  };
+
+  return (
+    <section className="abx-panel">
+      <h2>Markers</h2>
+      <p className="match-hint" style={{ marginTop: 0 }}>
+        Press <span className="keycap">M</span> to drop a note at the playhead for the whole comparison, or{" "}
+        <span className="keycap">Shift</span>+<span className="keycap">M</span> for the focused track.
+      </p>
+
+      <div className="abx-panel__row">
+        <button type="button" className="match-toggle__button" onClick={onAdd} disabled={!canAdd}>
+          Add marker
+        </button>
+        <button type="button" className="match-toggle__button" onClick={onExport} disabled={!markers.length}>
+          Export JSON
+        </button>
+        <button type="button" className="match-toggle__button" onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: "none" }}
+        />
+      </div>
+
+      {error ? <p style={{ color: "#fca5a5" }}>{error}</p> : null}
+
+      {markers.length ? (
+        <ul className="session-list marker-list">
+          {markers.map((marker) => (
+            <li key={marker.id}>
+              <button
+                type="button"
+                className="marker-list__time"
+                onClick={() => onJump(marker.time)}
+                title="Jump to marker"
+              >
+                {formatTime(marker.time)}
+              </button>
+              {hideTags ? null : (
+                <select
+                  value={marker.trackId ?? ""}
+                  onChange={(event) => onChange(marker.id, { trackId: event.target.value || null })}
+                  aria-label="Marker applies to"
+                >
+                  <option value="">All tracks</option>
+                  {trackOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                value={marker.text}
+                placeholder="Note"
+                onChange={(event) => onChange(marker.id, { text: event.target.value })}
+                aria-label={`Note at ${formatTime(marker.time)}`}
+              />
+              <button
+                type="button"
+                className="track-remove"
+                onClick={() => onDelete(marker.id)}
+                aria-label={`Delete marker at ${formatTime(marker.time)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="match-hint">No markers yet.</p>
+      )}
+    </section>
+  );
+}
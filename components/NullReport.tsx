@@ -0,0 +1,42 @@
+"use client";
+
+import type { NullTestResult } from "@/lib/nullTest";
+
+export interface NullReportProps {
+  /** e.g. "Track A − Track B"; null when fewer than two tracks are loaded. */
+  pairLabel: string | null;
+  result: NullTestResult | null;
+  error: string | null;
+  busy: boolean;
+  onRun: () => void;
+}
+
+const formatRelative = (value: number | null) => (value === null ? "−∞ dB" : `${value.toFixed(1)} dB`);
+
+export function NullReport({ pairLabel, result, error, busy, onRun }: NullReportProps) {
+  return (
+    <div className="null-report">
+      <button type="button" onClick={onRun} disabled={!pairLabel || busy}>
+        {busy ? "Measuring…" : "Residual report"}
+      </button>
+      <span style={{ opacity: 0.8 }}>{pairLabel ?? "Load two tracks to null them."}</span>
+      {error ? <span className="null-report__error">{error}</span> : null}
+      {result && !error ? (
+        <span>
+          {result.bitIdentical ? (
+            <strong className="null-report__verdict">Bit-identical</strong>
+          ) : (
+            <>
+              Residual RMS {formatRelative(result.residualRmsDb)}, peak {formatRelative(result.residualPeakDb)}
+            </>
+          )}
+          <span className="match-hint">
+            {" "}
+            over {result.comparedSeconds.toFixed(1)} s
+            {result.lagSamples !== 0 ? `, ${result.lagSamples > 0 ? "+" : ""}${result.lagSamples} smp offset` : ""}
+          </span>
+        </span>
+      ) : null}
+    </div>
+  );
+}
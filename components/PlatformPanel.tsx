@@ -0,0 +1,78 @@
+"use client";
+
+import type { LoudnessMetrics } from "@/lib/loudnessTypes";
+import { PLATFORM_PROFILES, computePlatformGain, describePlatformWarning } from "@/lib/platformProfiles";
+
+export interface PlatformPanelProps {
+  tracks: { id: string; label: string; metrics: Pick<LoudnessMetrics, "lufsIntegrated" | "truePeakDb"> }[];
+  /** Profile currently applied as the match strategy, if any. */
+  activeProfileId: string | null;
+  onPreview: (profileId: string) => void;
+}
+
+const formatGain = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)} dB`;
+
+export function PlatformPanel({ tracks, activeProfileId, onPreview }: PlatformPanelProps) {
+  const canPreview = tracks.some((track) => track.metrics.lufsIntegrated !== null);
+
+  return (
+    <section className="abx-panel">
+      <h2>Streaming preview</h2>
+      <p className="match-hint" style={{ marginTop: 0 }}>
+        Gain each platform's loudness normalization would apply by default. Preview applies it as the track trims;
+        the browser has no platform limiter, so limited boosts are held at the ceiling and play quieter here.
+      </p>
+
+      <table className="platform-table">
+        <thead>
+          <tr>
+            <th scope="col">Platform</th>
+            {tracks.map((track) => (
+              <th key={track.id} scope="col">
+                {track.label}
+              </th>
+            ))}
+            <th aria-label="Preview" />
+          </tr>
+        </thead>
+        <tbody>
+          {PLATFORM_PROFILES.map((profile) => (
+            <tr key={profile.id} className={profile.id === activeProfileId ? "active" : undefined}>
+              <th scope="row">
+                {profile.label}
+                <span className="match-hint">
+                  {" "}
+                  {profile.targetLufs} LUFS{profile.boost === "none" ? ", down only" : ""}
+                </span>
+              </th>
+              {tracks.map((track) => {
+                const gain = computePlatformGain(track.metrics, profile);
+                const warning = gain ? describePlatformWarning(gain) : null;
+                return (
+                  <td key={track.id}>
+                    {gain ? formatGain(gain.gainDb) : "--"}
+                    {warning ? (
+                      <span className={`platform-table__flag${gain?.clips ? " platform-table__flag--clip" : ""}`}>
+                        {warning}
+                      </span>
+                    ) : null}
+                  </td>
+                );
+              })}
+              <td>
+                <button
+                  type="button"
+                  className="match-toggle__button"
+                  onClick={() => onPreview(profile.id)}
+                  disabled={!canPreview}
+                >
+                  {profile.id === activeProfileId ? "Applied" : "Preview"}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
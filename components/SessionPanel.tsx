@@ -0,0 +1,97 @@
+"use client";
+
+import { FormEvent, useId, useState } from "react";
+import type { SessionSummary, StorageUsage } from "@/lib/sessionStore";
+
+export interface SessionPanelProps {
+  sessions: SessionSummary[];
+  usage: StorageUsage | null;
+  busy: boolean;
+  error: string | null;
+  canSave: boolean;
+  defaultName: string;
+  onSave: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function SessionPanel({
+  sessions,
+  usage,
+  busy,
+  error,
+  canSave,
+  defaultName,
+  onSave,
+  onOpen,
+  onDelete
+}: SessionPanelProps) {
+  const inputId = useId();
+  const [name, setName] = useState("");
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSave(name.trim() || defaultName);
+  };
+
+  return (
+    <section className="abx-panel">
+      <h2>Sessions</h2>
+      <p className="match-hint" style={{ marginTop: 0 }}>
+        Stored in this browser only, audio included, so saved sessions reopen offline.
+        {usage ? ` Using ${formatMegabytes(usage.usage)} of ${formatMegabytes(usage.quota)}.` : ""}
+      </p>
+
+      <form className="abx-panel__row" onSubmit={handleSubmit}>
+        <label htmlFor={`${inputId}-name`}>Name</label>
+        <input
+          id={`${inputId}-name`}
+          type="text"
+          value={name}
+          placeholder={defaultName}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="submit" className="match-toggle__button" disabled={!canSave || busy}>
+          {busy ? "Working…" : "Save session"}
+        </button>
+      </form>
+
+      {error ? <p style={{ color: "#fca5a5" }}>{error}</p> : null}
+
+      {sessions.length ? (
+        <ul className="session-list">
+          {sessions.map((session) => (
+            <li key={session.id}>
+              <div>
+                <strong>{session.name}</strong>
+                <span className="match-hint">
+                  {" "}
+                  {new Date(session.savedAt).toLocaleString()} · {session.fileIds.length} file
+                  {session.fileIds.length === 1 ? "" : "s"} · {formatMegabytes(session.bytes)}
+                </span>
+              </div>
+              <div className="session-list__actions">
+                <button type="button" onClick={() => onOpen(session.id)} disabled={busy}>
+                  Open
+                </button>
+                <button
+                  type="button"
+                  className="track-remove"
+                  onClick={() => onDelete(session.id)}
+                  disabled={busy}
+                  aria-label={`Delete ${session.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="match-hint">No saved sessions yet.</p>
+      )}
+    </section>
+  );
+}
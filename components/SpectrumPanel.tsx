@@ -0,0 +1,235 @@
+"use client";
+
+import { useId } from "react";
+import type { OctaveSmoothing, SpectrumCurve } from "@/lib/loudnessTypes";
+
+export type SpectrumRange = "file" | "loop";
+
+export interface SpectrumSeries {
+  id: string;
+  label: string;
+  color: string;
+  curve: SpectrumCurve;
+  /** Gain applied on playback, added to the curve so overlays match what you hear. */
+  gainDb: number;
+}
+
+export interface SpectrumPanelProps {
+  series: SpectrumSeries[];
+  trackOptions: { id: string; label: string }[];
+  differencePair: [string, string];
+  range: SpectrumRange;
+  canUseLoop: boolean;
+  smoothing: OctaveSmoothing;
+  applyTrims: boolean;
+  busy: boolean;
+  canAnalyze: boolean;
+  onDifferencePairChange: (pair: [string, string]) => void;
+  onRangeChange: (range: SpectrumRange) => void;
+  onSmoothingChange: (smoothing: OctaveSmoothing) => void;
+  onApplyTrimsChange: (apply: boolean) => void;
+  onAnalyze: () => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const DIFF_HEIGHT = 110;
+const RANGE_DB = 72;
+const DIFF_RANGE_DB = 12;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const xFor = (frequency: number) =>
+  (Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * WIDTH;
+
+const formatFrequency = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`);
+
+const buildPath = (frequencies: Float32Array, values: ArrayLike<number>, yFor: (value: number) => number) => {
+  let path = "";
+  for (let i = 0; i < values.length; i += 1) {
+    path += `${i === 0 ? "M" : "L"}${xFor(frequencies[i]).toFixed(1)} ${yFor(values[i]).toFixed(1)}`;
+  }
+  return path;
+};
+
+const shifted = (series: SpectrumSeries, applyTrims: boolean) =>
+  Array.from(series.curve.levelsDb, (value) => value + (applyTrims ? series.gainDb : 0));
+
+export function SpectrumPanel({
+  series,
+  trackOptions,
+  differencePair,
+  range,
+  canUseLoop,
+  smoothing,
+  applyTrims,
+  busy,
+  canAnalyze,
+  onDifferencePairChange,
+  onRangeChange,
+  onSmoothingChange,
+  onApplyTrimsChange,
+  onAnalyze
+}: SpectrumPanelProps) {
+  const inputId = useId();
+  const levels = series.map((entry) => shifted(entry, applyTrims));
+  const peak = levels.reduce((max, values) => Math.max(max, ...values), Number.NEGATIVE_INFINITY);
+  const top = Number.isFinite(peak) ? Math.ceil(peak / 6) * 6 : 0;
+  const yFor = (value: number) => Math.max(0, Math.min(HEIGHT, ((top - value) / RANGE_DB) * HEIGHT));
+
+  const [referenceId, compareId] = differencePair;
+  const referenceIndex = series.findIndex((entry) => entry.id === referenceId);
+  const compareIndex = series.findIndex((entry) => entry.id === compareId);
+  let difference: { frequencies: Float32Array; values: number[] } | null = null;
+  if (referenceIndex >= 0 && compareIndex >= 0 && referenceIndex !== compareIndex) {
+    // Both grids start at 20 Hz with the same spacing, so points line up by index.
+    const reference = levels[referenceIndex];
+    const compare = levels[compareIndex];
+    const count = Math.min(reference.length, compare.length);
+    difference = {
+      frequencies: series[compareIndex].curve.frequencies,
+      values: Array.from({ length: count }, (_, i) => compare[i] - reference[i])
+    };
+  }
+  const yForDifference = (value: number) =>
+    Math.max(0, Math.min(DIFF_HEIGHT, ((DIFF_RANGE_DB - value) / (2 * DIFF_RANGE_DB)) * DIFF_HEIGHT));
+
+  return (
+    <section className="spectrum-panel">
+      <h2>Average spectrum</h2>
+      <div className="abx-panel__row">
+        <label htmlFor={`${inputId}-range`}>Range</label>
+        <select
+          id={`${inputId}-range`}
+          value={range}
+          onChange={(event) => onRangeChange(event.target.value as SpectrumRange)}
+        >
+          <option value="file">Whole file</option>
+          <option value="loop" disabled={!canUseLoop}>
+            Loop region
+          </option>
+        </select>
+        <label htmlFor={`${inputId}-smoothing`}>Smoothing</label>
+        <select
+          id={`${inputId}-smoothing`}
+          value={smoothing}
+          onChange={(event) => onSmoothingChange(Number(event.target.value) as OctaveSmoothing)}
+        >
+          <option value={3}>1/3 octave</option>
+          <option value={6}>1/6 octave</option>
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={applyTrims}
+            onChange={(event) => onApplyTrimsChange(event.target.checked)}
+          />{" "}
+          Include trims
+        </label>
+        <button type="button" className="match-toggle__button" onClick={onAnalyze} disabled={!canAnalyze || busy}>
+          {busy ? "Analyzing…" : series.length ? "Re-analyze" : "Analyze"}
+        </button>
+      </div>
+
+      {series.length ? (
+        <>
+          <svg className="spectrum-panel__plot" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+            {GRID_FREQUENCIES.map((frequency) => (
+              <line
+                key={frequency}
+                className="spectrum-panel__grid"
+                x1={xFor(frequency)}
+                x2={xFor(frequency)}
+                y1={0}
+                y2={HEIGHT}
+              />
+            ))}
+            {series.map((entry, index) => (
+              <path
+                key={entry.id}
+                d={buildPath(entry.curve.frequencies, levels[index], yFor)}
+                stroke={entry.color}
+                className="spectrum-panel__curve"
+              />
+            ))}
+          </svg>
+          <div className="spectrum-panel__axis">
+            {GRID_FREQUENCIES.map((frequency) => (
+              <span key={frequency} style={{ left: `${(xFor(frequency) / WIDTH) * 100}%` }}>
+                {formatFrequency(frequency)}
+              </span>
+            ))}
+          </div>
+          <p className="match-hint">
+            Top of scale {top} dB, {RANGE_DB} dB range.{" "}
+            {series.map((entry) => (
+              <span key={entry.id} style={{ color: entry.color, marginRight: 10 }}>
+                {entry.label}
+              </span>
+            ))}
+          </p>
+
+          <div className="abx-panel__row">
+            <span>Difference</span>
+            <select
+              aria-label="Compared track"
+              value={compareId}
+              onChange={(event) => onDifferencePairChange([referenceId, event.target.value])}
+            >
+              {trackOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span>minus</span>
+            <select
+              aria-label="Reference track"
+              value={referenceId}
+              onChange={(event) => onDifferencePairChange([event.target.value, compareId])}
+            >
+              {trackOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {difference ? (
+            <svg
+              className="spectrum-panel__plot"
+              viewBox={`0 0 ${WIDTH} ${DIFF_HEIGHT}`}
+              preserveAspectRatio="none"
+              style={{ height: DIFF_HEIGHT }}
+            >
+              {GRID_FREQUENCIES.map((frequency) => (
+                <line
+                  key={frequency}
+                  className="spectrum-panel__grid"
+                  x1={xFor(frequency)}
+                  x2={xFor(frequency)}
+                  y1={0}
+                  y2={DIFF_HEIGHT}
+                />
+              ))}
+              <line className="spectrum-panel__zero" x1={0} x2={WIDTH} y1={DIFF_HEIGHT / 2} y2={DIFF_HEIGHT / 2} />
+              <path
+                d={buildPath(difference.frequencies, difference.values, yForDifference)}
+                stroke="#e2e8f0"
+                className="spectrum-panel__curve"
+              />
+            </svg>
+          ) : (
+            <p className="match-hint">Pick two different analyzed tracks to see their difference.</p>
+          )}
+          {difference ? (
+            <p className="match-hint">±{DIFF_RANGE_DB} dB scale; above the line is louder in the compared track.</p>
+          ) : null}
+        </>
+      ) : (
+        <p className="match-hint">Analyze to overlay each loaded track&apos;s long-term spectrum.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useId } from "react";
+import {
+  MAX_CROSSFADE_MS,
+  MIN_CROSSFADE_MS,
+  SWITCH_STYLES,
+  clampCrossfadeMs,
+  type SwitchSettings,
+  type SwitchStyle
+} from "@/lib/switching";
+
+export interface SwitchControlsProps {
+  settings: SwitchSettings;
+  onChange: (settings: SwitchSettings) => void;
+}
+
+export function SwitchControls({ settings, onChange }: SwitchControlsProps) {
+  const inputId = useId();
+  const quantized = settings.style === "beat" || settings.style === "bar";
+
+  return (
+    <div className="monitor-controls" role="group" aria-label="Switching">
+      <label htmlFor={`${inputId}-style`}>Switching</label>
+      <select
+        id={`${inputId}-style`}
+        value={settings.style}
+        onChange={(event) => onChange({ ...settings, style: event.target.value as SwitchStyle })}
+      >
+        {SWITCH_STYLES.map((style) => (
+          <option key={style.id} value={style.id}>
+            {style.label}
+          </option>
+        ))}
+      </select>
+      {settings.style !== "instant" ? (
+        <>
+          <input
+            id={`${inputId}-fade`}
+            type="range"
+            min={MIN_CROSSFADE_MS}
+            max={MAX_CROSSFADE_MS}
+            step={1}
+            value={settings.crossfadeMs}
+            onChange={(event) => onChange({ ...settings, crossfadeMs: clampCrossfadeMs(Number(event.target.value)) })}
+            aria-label="Crossfade duration"
+          />
+          <output htmlFor={`${inputId}-fade`}>{settings.crossfadeMs} ms fade</output>
+        </>
+      ) : null}
+      {quantized ? (
+        <label>
+          <input
+            type="number"
+            min={20}
+            max={300}
+            step={0.1}
+            value={settings.bpm}
+            onChange={(event) => {
+              const bpm = Number(event.target.value);
+              if (Number.isFinite(bpm) && bpm > 0) onChange({ ...settings, bpm });
+            }}
+            style={{ width: "72px" }}
+          />{" "}
+          BPM
+        </label>
+      ) : null}
+    </div>
+  );
+}
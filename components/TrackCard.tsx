@@ -1,10 +1,29 @@
 "use client";
 
-import { ChangeEvent, useId, useRef } from "react";
+import { ChangeEvent, DragEvent, useId, useMemo, useRef, useState } from "react";
+import { Waveform, type WaveformLayer } from "@/components/Waveform";
+import { channelLayoutOptions, channelWeightsForLayout, type ChannelLayoutId } from "@/lib/channelLayouts";
+import { audioFilesFrom, hasDraggedFiles } from "@/lib/fileDrop";
 import { formatDb } from "@/lib/formatDb";
 import { formatTime } from "@/lib/formatTime";
+import { MAX_LEVEL_EVENTS, formatLevelEvent } from "@/lib/levelEvents";
+import type { LevelEvent, WaveformPeaks } from "@/lib/loudnessTypes";
+import { describePcmFormat, type PcmFormat } from "@/lib/pcmDecoder";
 
-type TrackId = "A" | "B";
+type TrackId = string;
+
+export type LoadingStage = "reading" | "decoding" | "analyzing";
+
+const LOADING_STAGE_LABELS: Record<LoadingStage, string> = {
+  reading: "Reading file…",
+  decoding: "Decoding audio…",
+  analyzing: "Analyzing loudness…"
+};
+
+const formatEventTime = (seconds: number) =>
+  `${formatTime(seconds)}.${Math.floor((seconds % 1) * 1000)
+    .toString()
+    .padStart(3, "0")}`;
 
 export interface TrackCardProps {
   track: {
@@ -12,38 +31,101 @@ export interface TrackCardProps {
     name: string | null;
     duration: number | null;
     sampleRate: number | null;
+    format: PcmFormat | null;
+    channelCount: number | null;
+    channelLayout: ChannelLayoutId | null;
     size: number | null;
     loading: boolean;
+    loadingStage: LoadingStage | null;
+    loadingProgress: number | null;
     error: string | null;
     volume: number;
     hasBuffer: boolean;
     lufsIntegrated: number | null;
     peakDb: number | null;
+    truePeakDb: number | null;
+    truePeakChannelsDb: (number | null)[];
+    truePeakTime: number | null;
+    momentaryMaxLufs: number | null;
+    shortTermMaxLufs: number | null;
+    loudnessRange: number | null;
+    rmsDb: number | null;
+    aWeightedDb: number | null;
+    clipCount: number;
+    overCount: number;
+    levelEvents: LevelEvent[];
+    polarityInverted: boolean;
   };
+  label: string;
+  shortcut: string | null;
+  color: string;
+  waveform: WaveformPeaks | null;
+  /** Playhead position in this file's own time (alignment already applied). */
+  playheadTime: number;
   isActive: boolean;
+  masked?: boolean;
   trimDb: number;
+  /** Strategy the current trim was computed with, if any. */
+  trimStrategy?: string | null;
+  /** Flag raised by the applied strategy, e.g. a platform boost that clips. */
+  trimWarning?: string | null;
+  alignment: {
+    isReference: boolean;
+    offsetSeconds: number | null;
+    confidence: number | null;
+    nudgeSeconds: number;
+  };
+  onNudgeChange: (nudgeSeconds: number) => void;
+  /** Seeks to a time in this file; also used by the clip/over list. */
+  onSeek: (time: number) => void;
   onFileSelect: (file: File) => void;
+  /** Files dropped on this card; the first targets this slot, the rest fill others. */
+  onFilesDrop: (files: File[]) => void;
   onSetActive: () => void;
   onVolumeChange: (volume: number) => void;
+  /** Re-runs the loudness analysis with the weights of another speaker layout. */
+  onChannelLayoutChange: (layout: ChannelLayoutId) => void;
+  onPolarityToggle: () => void;
+  onRemove?: () => void;
 }
 
-const LABELS: Record<TrackId, string> = {
-  A: "Track A",
-  B: "Track B"
-};
-
 export function TrackCard({
   track,
+  label,
+  shortcut,
+  color,
+  waveform,
+  playheadTime,
   isActive,
+  masked = false,
   trimDb,
+  trimStrategy = null,
+  trimWarning = null,
+  alignment,
+  onNudgeChange,
+  onSeek,
   onFileSelect,
+  onFilesDrop,
   onSetActive,
-  onVolumeChange
+  onVolumeChange,
+  onChannelLayoutChange,
+  onPolarityToggle,
+  onRemove
 }: TrackCardProps) {
   const inputId = useId();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
   const setActiveDisabled = !track.hasBuffer || track.loading;
+  const waveformLayers = useMemo<WaveformLayer[]>(
+    () => (waveform ? [{ id: track.id, peaks: waveform, color, offsetSeconds: 0 }] : []),
+    [color, track.id, waveform]
+  );
   const isLoading = track.loading;
+  const channelLabel = (channel: number) => track.format?.channelLabels[channel] ?? `Ch${channel + 1}`;
+  const layoutWeights =
+    track.channelLayout && track.channelCount
+      ? channelWeightsForLayout(track.channelLayout, track.channelCount).join(" ")
+      : null;
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -53,27 +135,128 @@ export function TrackCard({
     event.target.value = "";
   };
 
+  const handleDragOver = (event: DragEvent<HTMLElement>) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragOver(false);
+    const files = audioFilesFrom(event.dataTransfer);
+    if (files.length) onFilesDrop(files);
+  };
+
   const formattedSize = track.size
     ? `${(track.size / (1024 * 1024)).toFixed(2)} MB`
     : "--";
   const formattedLufs = track.lufsIntegrated === null ? "--" : `${track.lufsIntegrated.toFixed(1)} LUFS`;
   const formattedPeak = formatDb(track.peakDb, "dBFS");
-  const appliedTrim = Math.max(0, Number.isFinite(trimDb) ? trimDb : 0);
-  const formattedTrim = appliedTrim > 0 ? `-${appliedTrim.toFixed(1)} dB` : "0.0 dB";
+  const formattedTruePeak =
+    track.truePeakDb === null
+      ? "--"
+      : `${formatDb(track.truePeakDb, "dBTP")}${track.truePeakTime === null ? "" : ` @ ${formatTime(track.truePeakTime)}`}`;
+  const formattedChannelPeaks = track.truePeakChannelsDb
+    .map((value) => (value === null ? "--" : value.toFixed(1)))
+    .join(" / ");
+  const isOver = track.truePeakDb !== null && track.truePeakDb > 0;
+  const formattedMomentaryMax = formatDb(track.momentaryMaxLufs, "LUFS");
+  const formattedShortTermMax = formatDb(track.shortTermMaxLufs, "LUFS");
+  const formattedRange = formatDb(track.loudnessRange, "LU");
+  const appliedTrim = Number.isFinite(trimDb) ? trimDb : 0;
+  // Trim is stored as attenuation, so a negative value is a boost.
+  const formattedTrim = `${appliedTrim > 0 ? "-" : appliedTrim < 0 ? "+" : ""}${Math.abs(appliedTrim).toFixed(1)} dB${
+    trimStrategy ? ` (${trimStrategy})` : ""
+  }`;
+  const formattedRms = formatDb(track.rmsDb, "dBFS");
+  const bext = track.format?.bext ?? null;
+  const formattedOrigin = bext
+    ? [bext.originator, `${bext.originationDate} ${bext.originationTime}`.trim()].filter(Boolean).join(" · ") ||
+      "--"
+    : "--";
+  const formattedAWeighted = formatDb(track.aWeightedDb, "dBFS");
   const sliderPercent = (track.volume * 100).toFixed(0);
+  const sampleSeconds = track.sampleRate ? 1 / track.sampleRate : 0;
+  const formatOffset = (seconds: number) => {
+    const ms = `${seconds >= 0 ? "+" : ""}${(seconds * 1000).toFixed(2)} ms`;
+    return sampleSeconds ? `${ms} (${Math.round(seconds / sampleSeconds)} smp)` : ms;
+  };
+  const formattedAlignment = alignment.isReference
+    ? "Reference"
+    : alignment.offsetSeconds === null
+      ? "--"
+      : formatOffset(alignment.offsetSeconds);
+  const nudgeBy = (seconds: number) => onNudgeChange(alignment.nudgeSeconds + seconds);
+
+  if (masked) {
+    // Blind sessions hide everything that could identify the file, including focus.
+    return (
+      <article className="track-card">
+        <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <h3 style={{ margin: 0 }}>Hidden track</h3>
+          <span className="status-badge">Blind</span>
+        </header>
+        <p style={{ marginTop: "16px", opacity: 0.75 }}>
+          Name, loudness and trim readouts are masked until the blind session ends.
+        </p>
+      </article>
+    );
+  }
 
   return (
-    <article className={`track-card${isActive ? " active" : ""}`}>
+    <article
+      className={`track-card${isActive ? " active" : ""}${isDragOver ? " track-card--drop" : ""}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <header style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-        <h3 style={{ margin: 0 }}>{LABELS[track.id]}</h3>
-        {track.hasBuffer ? (
-          <span className="status-badge">{isActive ? "Active" : "Standby"}</span>
-        ) : null}
+        <h3 style={{ margin: 0 }}>
+          {shortcut ? <span className="keycap">{shortcut}</span> : null}
+          {label}
+        </h3>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+          {track.hasBuffer ? (
+            <span className="status-badge">{isActive ? "Active" : "Standby"}</span>
+          ) : null}
+          {onRemove ? (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="track-remove"
+              aria-label={`Remove ${label}`}
+              disabled={isLoading}
+            >
+              ×
+            </button>
+          ) : null}
+        </div>
       </header>
 
       {track.hasBuffer ? (
         <div style={{ marginTop: "16px" }}>
           <p className="filename">{track.name}</p>
+          {waveformLayers.length && track.duration ? (
+            <div style={{ marginTop: "12px" }}>
+              <Waveform
+                layers={waveformLayers}
+                duration={track.duration}
+                currentTime={playheadTime}
+                height={56}
+                onSeek={onSeek}
+              />
+            </div>
+          ) : null}
           <div className="track-meta">
             <span>Duration</span>
             <span>{formatTime(track.duration)}</span>
@@ -81,14 +264,118 @@ export function TrackCard({
             <span>
               {track.sampleRate ? `${Math.round(track.sampleRate)} Hz` : "--"}
             </span>
+            <span>Format</span>
+            <span title={track.format ? track.format.channelLabels.join(" ") : undefined}>
+              {track.format ? describePcmFormat(track.format) : track.hasBuffer ? "Browser decoded" : "--"}
+            </span>
+            {track.format?.bext ? (
+              <>
+                <span>Origin</span>
+                <span title={track.format.bext.description || undefined}>{formattedOrigin}</span>
+              </>
+            ) : null}
+            <span>Layout</span>
+            <span>
+              <select
+                className="track-layout"
+                value={track.channelLayout ?? "discrete"}
+                disabled={isLoading || !track.channelCount}
+                onChange={(event) => onChannelLayoutChange(event.target.value as ChannelLayoutId)}
+                aria-label="Speaker layout for loudness weighting"
+                title={layoutWeights ? `BS.1770 channel weights: ${layoutWeights}` : undefined}
+              >
+                {channelLayoutOptions(track.channelCount ?? 0).map((layout) => (
+                  <option key={layout.id} value={layout.id}>
+                    {layout.label}
+                  </option>
+                ))}
+              </select>
+            </span>
             <span>File Size</span>
             <span>{formattedSize}</span>
             <span>LUFS-I</span>
             <span>{formattedLufs}</span>
-            <span>Peak</span>
+            <span>Momentary Max</span>
+            <span>{formattedMomentaryMax}</span>
+            <span>Short-term Max</span>
+            <span>{formattedShortTermMax}</span>
+            <span>LRA</span>
+            <span>{formattedRange}</span>
+            <span>RMS</span>
+            <span>{formattedRms}</span>
+            <span>A-weighted</span>
+            <span>{formattedAWeighted}</span>
+            <span>Sample Peak</span>
             <span>{formattedPeak}</span>
+            <span>True Peak</span>
+            <span style={isOver ? { color: "#fca5a5" } : undefined}>{formattedTruePeak}</span>
+            <span>Per Channel</span>
+            <span>{formattedChannelPeaks ? `${formattedChannelPeaks} dBTP` : "--"}</span>
+            <span>Clips / Overs</span>
+            <span style={track.clipCount + track.overCount > 0 ? { color: "#fca5a5" } : undefined}>
+              {track.clipCount} / {track.overCount}
+            </span>
             <span>Auto Trim</span>
-            <span>{formattedTrim}</span>
+            <span>
+              {formattedTrim}
+              {trimWarning ? (
+                <>
+                  <br />
+                  <span style={{ color: "#fca5a5" }}>{trimWarning}</span>
+                </>
+              ) : null}
+            </span>
+            <span>Offset</span>
+            <span title={alignment.confidence === null ? undefined : `Confidence ${(alignment.confidence * 100).toFixed(0)}%`}>
+              {formattedAlignment}
+            </span>
+          </div>
+          {track.levelEvents.length ? (
+            <details className="level-events">
+              <summary>
+                {track.clipCount} clip{track.clipCount === 1 ? "" : "s"}, {track.overCount} over
+                {track.overCount === 1 ? "" : "s"}
+              </summary>
+              <ul className="session-list">
+                {track.levelEvents.map((event, index) => (
+                  <li key={`${event.kind}-${event.channel}-${index}`}>
+                    <button type="button" className="marker-list__time" onClick={() => onSeek(event.time)}>
+                      {formatEventTime(event.time)}
+                    </button>
+                    <span>{channelLabel(event.channel)}</span>
+                    <span>{formatLevelEvent(event)}</span>
+                  </li>
+                ))}
+              </ul>
+              {track.clipCount + track.overCount > track.levelEvents.length ? (
+                <p className="match-hint">Showing the first {MAX_LEVEL_EVENTS} events.</p>
+              ) : null}
+            </details>
+          ) : null}
+          <div className="alignment-control">
+            <label htmlFor={`${inputId}-nudge`}>Nudge</label>
+            <div className="alignment-control__buttons">
+              <button type="button" onClick={() => nudgeBy(-0.001)}>
+                −1 ms
+              </button>
+              <button type="button" onClick={() => nudgeBy(-sampleSeconds)} disabled={!sampleSeconds}>
+                −1 smp
+              </button>
+              <input
+                id={`${inputId}-nudge`}
+                type="number"
+                step={0.1}
+                value={Number((alignment.nudgeSeconds * 1000).toFixed(3))}
+                onChange={(event) => onNudgeChange(Number(event.target.value) / 1000)}
+              />
+              <button type="button" onClick={() => nudgeBy(sampleSeconds)} disabled={!sampleSeconds}>
+                +1 smp
+              </button>
+              <button type="button" onClick={() => nudgeBy(0.001)}>
+                +1 ms
+              </button>
+            </div>
+            <output>Manual nudge {formatOffset(alignment.nudgeSeconds)}</output>
           </div>
         </div>
       ) : (
@@ -123,7 +410,7 @@ export function TrackCard({
             transition: "all 0.2s ease"
           }}
         >
-          {isActive ? "Currently A/B focus" : "Set as active"}
+          {isActive ? "Currently in focus" : "Set as active"}
         </button>
         <button
           type="button"
@@ -143,6 +430,24 @@ export function TrackCard({
         >
           Load
         </button>
+        <button
+          type="button"
+          onClick={onPolarityToggle}
+          aria-pressed={track.polarityInverted}
+          title="Invert polarity on playback"
+          style={{
+            flex: "0 0 auto",
+            padding: "10px 16px",
+            borderRadius: "999px",
+            background: track.polarityInverted ? "rgba(244, 114, 182, 0.2)" : "rgba(148, 163, 184, 0.15)",
+            border: "1px solid rgba(148, 163, 184, 0.4)",
+            color: track.polarityInverted ? "#f472b6" : "#e2e8f0",
+            cursor: "pointer",
+            transition: "all 0.2s ease"
+          }}
+        >
+          Ø {track.polarityInverted ? "Inverted" : "Polarity"}
+        </button>
       </div>
 
       <div className="volume-control" style={{ marginTop: "18px" }}>
@@ -174,7 +479,14 @@ export function TrackCard({
       />
 
       {track.loading ? (
-        <p style={{ marginTop: "12px", opacity: 0.75 }}>Decoding & analyzing loudness…</p>
+        <div className="load-progress">
+          <span>
+            {track.loadingStage ? LOADING_STAGE_LABELS[track.loadingStage] : "Loading…"}
+            {track.loadingProgress !== null ? ` ${Math.round(track.loadingProgress * 100)}%` : ""}
+          </span>
+          {/* No value renders the indeterminate bar for stages that can't report progress. */}
+          <progress max={1} value={track.loadingProgress ?? undefined} />
+        </div>
       ) : null}
     </article>
   );
@@ -0,0 +1,198 @@
+"use client";
+
+import { PointerEvent, useEffect, useRef, useState } from "react";
+import type { WaveformPeaks } from "@/lib/loudnessTypes";
+import { selectWaveformLevel } from "@/lib/waveformCore";
+
+export interface WaveformLayer {
+  id: string;
+  peaks: WaveformPeaks;
+  color: string;
+  /** Seconds the layer's audio is shifted right on the timeline. */
+  offsetSeconds: number;
+  emphasized?: boolean;
+}
+
+export interface WaveformMarker {
+  id: string;
+  time: number;
+  color: string;
+  label: string;
+}
+
+export interface WaveformProps {
+  layers: WaveformLayer[];
+  duration: number;
+  currentTime: number;
+  viewStart?: number;
+  viewEnd?: number;
+  height?: number;
+  selection?: { start: number; end: number } | null;
+  selectionActive?: boolean;
+  markers?: WaveformMarker[];
+  onSeek?: (time: number) => void;
+  /** Shift+drag reports a selected range instead of seeking. */
+  onSelect?: (start: number, end: number) => void;
+}
+
+const drawLayer = (
+  context: CanvasRenderingContext2D,
+  layer: WaveformLayer,
+  width: number,
+  height: number,
+  viewStart: number,
+  viewEnd: number
+) => {
+  const { peaks } = layer;
+  const secondsPerPixel = (viewEnd - viewStart) / width;
+  const samplesPerPixel = secondsPerPixel * peaks.sampleRate;
+  const level = selectWaveformLevel(peaks, samplesPerPixel);
+  const middle = height / 2;
+
+  context.fillStyle = layer.color;
+  context.globalAlpha = layer.emphasized === false ? 0.35 : 0.85;
+
+  for (let x = 0; x < width; x += 1) {
+    const t0 = viewStart + x * secondsPerPixel - layer.offsetSeconds;
+    const t1 = t0 + secondsPerPixel;
+    const first = Math.max(0, Math.floor((t0 * peaks.sampleRate) / level.samplesPerPeak));
+    const last = Math.min(level.min.length, Math.ceil((t1 * peaks.sampleRate) / level.samplesPerPeak));
+    if (last <= first) continue;
+
+    let low = 0;
+    let high = 0;
+    for (let i = first; i < last; i += 1) {
+      if (level.min[i] < low) low = level.min[i];
+      if (level.max[i] > high) high = level.max[i];
+    }
+
+    const top = middle - Math.min(1, high) * middle;
+    const bottom = middle - Math.max(-1, low) * middle;
+    context.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+};
+
+export function Waveform({
+  layers,
+  duration,
+  currentTime,
+  viewStart = 0,
+  viewEnd,
+  height = 72,
+  selection = null,
+  selectionActive = true,
+  markers = [],
+  onSeek,
+  onSelect
+}: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const selectAnchorRef = useRef<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [width, setWidth] = useState(0);
+  const end = viewEnd ?? duration;
+  const span = Math.max(end - viewStart, 0.001);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver((entries) => {
+      setWidth(Math.floor(entries[0]?.contentRect.width ?? 0));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Peaks only get redrawn when data or view change; the playhead is a DOM overlay.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const ratio = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+    canvas.width = Math.floor(width * ratio);
+    canvas.height = Math.floor(height * ratio);
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    layers.forEach((layer) => drawLayer(context, layer, width, height, viewStart, viewStart + span));
+    context.globalAlpha = 1;
+  }, [height, layers, span, viewStart, width]);
+
+  const timeAtPointer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    return Math.max(0, Math.min(duration, viewStart + fraction * span));
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+
+    if (event.shiftKey && onSelect) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      selectAnchorRef.current = timeAtPointer(event);
+      return;
+    }
+
+    if (!onSeek) return;
+    selectAnchorRef.current = null;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSeek(timeAtPointer(event));
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+
+    const time = timeAtPointer(event);
+    const anchor = selectAnchorRef.current;
+    if (anchor !== null) {
+      onSelect?.(Math.min(anchor, time), Math.max(anchor, time));
+      return;
+    }
+    onSeek?.(time);
+  };
+
+  const handlePointerUp = () => {
+    selectAnchorRef.current = null;
+  };
+
+  const playheadFraction = (currentTime - viewStart) / span;
+  const selectionLeft = selection ? Math.max(0, (selection.start - viewStart) / span) : 0;
+  const selectionRight = selection ? Math.min(1, (selection.end - viewStart) / span) : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`waveform${onSeek ? " waveform--seekable" : ""}`}
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} style={{ width: "100%", height }} />
+      {selection && selectionRight > selectionLeft ? (
+        <div
+          className={`waveform__selection${selectionActive ? "" : " waveform__selection--inactive"}`}
+          style={{ left: `${selectionLeft * 100}%`, width: `${(selectionRight - selectionLeft) * 100}%` }}
+        />
+      ) : null}
+      {markers.map((marker) => {
+        const fraction = (marker.time - viewStart) / span;
+        if (fraction < 0 || fraction > 1) return null;
+        return (
+          <div
+            key={marker.id}
+            className="waveform__marker"
+            style={{ left: `${fraction * 100}%`, background: marker.color, color: marker.color }}
+            title={marker.label}
+          />
+        );
+      })}
+      {playheadFraction >= 0 && playheadFraction <= 1 ? (
+        <div className="waveform__playhead" style={{ left: `${playheadFraction * 100}%` }} />
+      ) : null}
+    </div>
+  );
+}
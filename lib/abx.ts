@@ -0,0 +1,144 @@
+export type AbxLabel = "A" | "B";
+export type AbxSource = AbxLabel | "X";
+
+export interface AbxTrial {
+  index: number;
+  x: AbxLabel;
+  answer: AbxLabel | null;
+  correct: boolean | null;
+  answeredAt: number | null;
+}
+
+export interface AbxSession {
+  assignment: Record<AbxLabel, string>;
+  trials: AbxTrial[];
+  currentTrial: number;
+  startedAt: number;
+  completedAt: number | null;
+}
+
+export interface AbxScore {
+  correct: number;
+  answered: number;
+  total: number;
+  pValue: number | null;
+}
+
+export const DEFAULT_ABX_TRIALS = 16;
+export const ABX_SIGNIFICANCE = 0.05;
+
+const pickLabel = (random: () => number): AbxLabel => (random() < 0.5 ? "A" : "B");
+
+export function createAbxSession(
+  trackIds: [string, string],
+  trialCount = DEFAULT_ABX_TRIALS,
+  random: () => number = Math.random
+): AbxSession {
+  // Shuffle which file hides behind "A" so card order gives nothing away.
+  const [first, second] = random() < 0.5 ? trackIds : [trackIds[1], trackIds[0]];
+  const count = Math.max(1, Math.floor(trialCount));
+
+  return {
+    assignment: { A: first, B: second },
+    trials: Array.from({ length: count }, (_, index) => ({
+      index,
+      x: pickLabel(random),
+      answer: null,
+      correct: null,
+      answeredAt: null
+    })),
+    currentTrial: 0,
+    startedAt: Date.now(),
+    completedAt: null
+  };
+}
+
+export function resolveAbxSource(session: AbxSession, source: AbxSource): string {
+  if (source === "X") {
+    const trial = session.trials[Math.min(session.currentTrial, session.trials.length - 1)];
+    return session.assignment[trial.x];
+  }
+  return session.assignment[source];
+}
+
+export function answerAbxTrial(session: AbxSession, answer: AbxLabel, now = Date.now()): AbxSession {
+  if (session.completedAt !== null) {
+    return session;
+  }
+
+  const trials = session.trials.map((trial) =>
+    trial.index === session.currentTrial
+      ? { ...trial, answer, correct: trial.x === answer, answeredAt: now }
+      : trial
+  );
+  const nextTrial = session.currentTrial + 1;
+  const finished = nextTrial >= trials.length;
+
+  return {
+    ...session,
+    trials,
+    currentTrial: finished ? session.currentTrial : nextTrial,
+    completedAt: finished ? now : null
+  };
+}
+
+const logChoose = (n: number, k: number): number => {
+  let result = 0;
+  for (let i = 1; i <= k; i += 1) {
+    result += Math.log(n - k + i) - Math.log(i);
+  }
+  return result;
+};
+
+/**
+ * One-sided binomial test: probability of scoring at least `correct` out of
+ * `total` by guessing (p = 0.5 per trial).
+ */
+export function binomialPValue(correct: number, total: number): number | null {
+  if (total <= 0) {
+    return null;
+  }
+
+  let probability = 0;
+  for (let k = Math.max(0, correct); k <= total; k += 1) {
+    probability += Math.exp(logChoose(total, k) - total * Math.LN2);
+  }
+  return Math.min(1, probability);
+}
+
+export function scoreAbxSession(session: AbxSession): AbxScore {
+  const answered = session.trials.filter((trial) => trial.answer !== null);
+  const correct = answered.filter((trial) => trial.correct).length;
+
+  return {
+    correct,
+    answered: answered.length,
+    total: session.trials.length,
+    pValue: binomialPValue(correct, answered.length)
+  };
+}
+
+export function buildAbxLog(session: AbxSession, names: Record<string, string | null>) {
+  const score = scoreAbxSession(session);
+
+  return {
+    kind: "abx-session",
+    startedAt: new Date(session.startedAt).toISOString(),
+    completedAt: session.completedAt === null ? null : new Date(session.completedAt).toISOString(),
+    assignment: {
+      A: { trackId: session.assignment.A, name: names[session.assignment.A] ?? null },
+      B: { trackId: session.assignment.B, name: names[session.assignment.B] ?? null }
+    },
+    score: {
+      ...score,
+      significant: score.pValue !== null && score.pValue < ABX_SIGNIFICANCE
+    },
+    trials: session.trials.map((trial) => ({
+      trial: trial.index + 1,
+      x: trial.x,
+      answer: trial.answer,
+      correct: trial.correct,
+      answeredAt: trial.answeredAt === null ? null : new Date(trial.answeredAt).toISOString()
+    }))
+  };
+}
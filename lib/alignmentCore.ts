@@ -0,0 +1,171 @@
+import { AlignmentEnvelope, AlignmentResult } from "./loudnessTypes";
+
+const DEFAULT_ENVELOPE_RATE = 1000;
+const DEFAULT_MAX_LAG_SECONDS = 5;
+const COARSE_FACTOR = 10;
+
+export function computeAlignmentEnvelope(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number,
+  envelopeRate = DEFAULT_ENVELOPE_RATE
+): AlignmentEnvelope {
+  const hop = Math.max(1, Math.round(sampleRate / envelopeRate));
+  const frames = Math.floor(length / hop);
+  const data = new Float32Array(frames);
+
+  if (!channels.length) {
+    return { data, rate: sampleRate / hop };
+  }
+
+  for (let frame = 0; frame < frames; frame += 1) {
+    const start = frame * hop;
+    let energy = 0;
+    for (let channel = 0; channel < channels.length; channel += 1) {
+      const samples = channels[channel];
+      for (let i = start; i < start + hop; i += 1) {
+        const sample = samples[i] ?? 0;
+        energy += sample * sample;
+      }
+    }
+    data[frame] = Math.sqrt(energy / (hop * channels.length));
+  }
+
+  return { data, rate: sampleRate / hop };
+}
+
+const resampleEnvelope = (envelope: AlignmentEnvelope, rate: number): Float32Array => {
+  if (envelope.rate === rate) {
+    return envelope.data;
+  }
+
+  const length = Math.floor((envelope.data.length * rate) / envelope.rate);
+  const resampled = new Float32Array(length);
+  const ratio = envelope.rate / rate;
+  for (let i = 0; i < length; i += 1) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const current = envelope.data[index] ?? 0;
+    const next = envelope.data[index + 1] ?? current;
+    resampled[i] = current + (next - current) * fraction;
+  }
+  return resampled;
+};
+
+// Half-wave rectified first difference: emphasises onsets, which correlate far
+// more sharply than the raw level envelope.
+const toOnsets = (data: Float32Array): Float32Array => {
+  const onsets = new Float32Array(data.length);
+  for (let i = 1; i < data.length; i += 1) {
+    onsets[i] = Math.max(0, data[i] - data[i - 1]);
+  }
+  return onsets;
+};
+
+const decimate = (data: Float32Array, factor: number): Float32Array => {
+  const length = Math.floor(data.length / factor);
+  const decimated = new Float32Array(length);
+  for (let i = 0; i < length; i += 1) {
+    let sum = 0;
+    for (let j = 0; j < factor; j += 1) {
+      sum += data[i * factor + j];
+    }
+    decimated[i] = sum;
+  }
+  return decimated;
+};
+
+const energyOf = (data: Float32Array): number => {
+  let energy = 0;
+  for (let i = 0; i < data.length; i += 1) {
+    energy += data[i] * data[i];
+  }
+  return energy;
+};
+
+const dotAt = (reference: Float32Array, target: Float32Array, lag: number): number => {
+  const start = Math.max(0, -lag);
+  const end = Math.min(reference.length, target.length - lag);
+  let dot = 0;
+  for (let i = start; i < end; i += 1) {
+    dot += reference[i] * target[i + lag];
+  }
+  return dot;
+};
+
+// Normalising by whole-signal energy (not just the overlap) favours small lags,
+// so rhythmic material doesn't lock onto a match several beats away.
+const findBestLag = (
+  reference: Float32Array,
+  target: Float32Array,
+  minLag: number,
+  maxLag: number
+): { lag: number; score: number; scores: Map<number, number> } => {
+  const norm = Math.sqrt(energyOf(reference) * energyOf(target));
+  const scores = new Map<number, number>();
+  let bestLag = 0;
+  let bestScore = Number.NEGATIVE_INFINITY;
+
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    const score = norm > 0 ? dotAt(reference, target, lag) / norm : 0;
+    scores.set(lag, score);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  return { lag: bestLag, score: bestScore, scores };
+};
+
+/**
+ * Estimates how much later the target's content starts than the reference's.
+ * A positive offset means the target carries extra pre-roll.
+ */
+export function detectAlignmentOffset(
+  reference: AlignmentEnvelope,
+  target: AlignmentEnvelope,
+  maxLagSeconds = DEFAULT_MAX_LAG_SECONDS
+): AlignmentResult {
+  const rate = reference.rate;
+  const referenceOnsets = toOnsets(reference.data);
+  const targetOnsets = toOnsets(resampleEnvelope(target, rate));
+
+  if (referenceOnsets.length < 2 || targetOnsets.length < 2) {
+    return { offsetSeconds: 0, confidence: 0 };
+  }
+
+  // Coarse pass over the full lag range, then refine at full envelope resolution.
+  const coarseRate = rate / COARSE_FACTOR;
+  const coarseMaxLag = Math.max(1, Math.round(maxLagSeconds * coarseRate));
+  const coarse = findBestLag(
+    decimate(referenceOnsets, COARSE_FACTOR),
+    decimate(targetOnsets, COARSE_FACTOR),
+    -coarseMaxLag,
+    coarseMaxLag
+  );
+
+  const center = coarse.lag * COARSE_FACTOR;
+  const fine = findBestLag(
+    referenceOnsets,
+    targetOnsets,
+    center - 2 * COARSE_FACTOR,
+    center + 2 * COARSE_FACTOR
+  );
+
+  let refinedLag = fine.lag;
+  const before = fine.scores.get(fine.lag - 1);
+  const after = fine.scores.get(fine.lag + 1);
+  if (before !== undefined && after !== undefined) {
+    const curvature = before - 2 * fine.score + after;
+    if (curvature < 0) {
+      refinedLag += (0.5 * (before - after)) / curvature;
+    }
+  }
+
+  return {
+    offsetSeconds: refinedLag / rate,
+    confidence: Math.max(0, Math.min(1, fine.score))
+  };
+}
@@ -1,94 +1,112 @@
-import { computeLoudnessMetrics, type LoudnessWorkerPayload } from "./loudnessCore";
-import { LoudnessMetrics } from "./loudnessTypes";
-
-const ABSOLUTE_GATE_LUFS = -70;
-const RELATIVE_GATE_OFFSET = 10;
-const BLOCK_DURATION_SECONDS = 0.4;
-const STEP_DURATION_SECONDS = 0.1;
-const LUFS_OFFSET = -0.691;
-const K_WEIGHT_SAMPLE_RATE = 48000;
-const TRUE_PEAK_SAMPLE_RATE = 192000;
-
-const HEAD_FILTER_FEEDFORWARD = new Float32Array([
-  1.53512485958697,
-  -2.69169618940638,
-  1.19839281085285,
-]);
-const HEAD_FILTER_FEEDBACK = new Float32Array([
-  1,
-  -1.69065929318241,
-  0.73248077421585,
-]);
-const RLB_FILTER_FEEDFORWARD = new Float32Array([1, -2, 1]);
-const RLB_FILTER_FEEDBACK = new Float32Array([1, -1.99004745483398, 0.99007225036621]);
-
-const computeSamplePeakDb = (buffer: AudioBuffer): number | null => {
-  let peak = 0;
-  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
-    const data = buffer.getChannelData(channel);
-    for (let i = 0; i < buffer.length; i += 1) {
-      const abs = Math.abs(data[i]);
-      if (abs > peak) {
-        peak = abs;
-      }
-    }
-  }
-  return peak > 0 ? Math.min(20 * Math.log10(peak), 0) : null;
-};
-
-const computeTruePeakDb = async (buffer: AudioBuffer): Promise<number | null> => {
-  if (typeof OfflineAudioContext === "undefined") {
-    return computeSamplePeakDb(buffer);
-  }
-
-  try {
-    const oversampleRate = Math.min(TRUE_PEAK_SAMPLE_RATE, buffer.sampleRate * 4);
-    const frameCount = Math.max(1, Math.ceil(buffer.duration * oversampleRate));
-    const offlineContext = new OfflineAudioContext(buffer.numberOfChannels, frameCount, oversampleRate);
-    const source = offlineContext.createBufferSource();
-    source.buffer = buffer;
-    source.connect(offlineContext.destination);
-    source.start(0);
-    const rendered = await offlineContext.startRendering();
+import { detectAlignmentOffset } from "./alignmentCore";
+import { channelWeightsForLayout, detectChannelLayout, type ChannelLayoutId } from "./channelLayouts";
+import { designKWeighting } from "./kWeighting";
+import {
+  BLOCK_DURATION_SECONDS,
+  LOUDNESS_GATING,
+  STEP_DURATION_SECONDS,
+  computeRegionLoudness,
+  createLoudnessPayload,
+  type LoudnessWorkerPayload
+} from "./loudnessCore";
+import { analyzeLoudnessJob } from "./loudnessJob";
+import {
+  AlignmentEnvelope,
+  AlignmentResult,
+  LoudnessAnalysis,
+  LoudnessSteps,
+  OctaveSmoothing,
+  SpectrumCurve
+} from "./loudnessTypes";
+import { computeNullResidual, type NullTestResult } from "./nullTest";
+import { decodePcm, type DecodedPcm } from "./pcmDecoder";
+import { computeSpectrum } from "./spectrumCore";
 
-    let peak = 0;
-    for (let channel = 0; channel < rendered.numberOfChannels; channel += 1) {
-      const data = rendered.getChannelData(channel);
-      for (let i = 0; i < rendered.length; i += 1) {
-        const abs = Math.abs(data[i]);
-        if (abs > peak) {
-          peak = abs;
-        }
-      }
-    }
-
-    return peak > 0 ? Math.min(20 * Math.log10(peak), 0) : null;
-  } catch (error) {
-    console.warn("True-peak analysis failed; falling back to sample peak", error);
-    return computeSamplePeakDb(buffer);
-  }
-};
+const K_WEIGHT_SAMPLE_RATE = 48000;
 
 type WorkerResultMessage =
-  | { type: "result"; id: number; result: LoudnessMetrics }
+  | { type: "result"; id: number; result: LoudnessAnalysis }
+  | { type: "progress"; id: number; progress: number }
+  | { type: "aligned"; id: number; result: AlignmentResult }
+  | { type: "spectrum"; id: number; result: SpectrumCurve }
+  | { type: "null"; id: number; result: NullTestResult }
+  | { type: "decoded"; id: number; result: DecodedPcm }
   | { type: "error"; id: number; error: string };
 
 interface WorkerRequest {
-  resolve: (value: LoudnessMetrics) => void;
+  resolve: (value: unknown) => void;
   reject: (reason?: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export interface AnalysisOptions {
+  /** Track slot the analysis belongs to; a newer analysis for the same slot cancels this one. */
+  slot?: string;
+  /** Called with 0–1 as the analysis advances. */
+  onProgress?: (progress: number) => void;
+  /** Speaker layout for the BS.1770 channel weights; guessed from the channel count when omitted. */
+  layout?: ChannelLayoutId;
+  /** dBTP level above which true-peak overs are reported; defaults to -1 dBTP. */
+  overThresholdDb?: number;
+}
+
+/** Rejection for an analysis that was cancelled or replaced by a newer one for its slot. */
+export class AnalysisSupersededError extends Error {
+  constructor(slot: string) {
+    super(`Analysis for ${slot} was superseded`);
+    this.name = "AnalysisSupersededError";
+  }
+}
+
+interface AnalysisTicket {
+  slot: string;
+  cancelled: boolean;
+  onCancel: (() => void) | null;
 }
 
+const slotTickets = new Map<string, AnalysisTicket>();
+
 interface SerializedWorkerPayload {
   weightedBuffers: ArrayBuffer[];
   originalBuffers: ArrayBuffer[];
   channelWeights: number[];
   blockSize: number;
   stepSize: number;
+  shortTermSize: number;
   totalSamples: number;
   originalLength: number;
+  sampleRate: number;
+  weightedSampleRate: number;
   absoluteGate: number;
   relativeGateOffset: number;
   lufsOffset: number;
+  overThresholdDb: number;
+}
+
+interface SerializedAlignPayload {
+  referenceEnvelope: ArrayBuffer;
+  referenceRate: number;
+  targetEnvelope: ArrayBuffer;
+  targetRate: number;
+}
+
+interface SerializedSpectrumPayload {
+  samples: ArrayBuffer;
+  sampleRate: number;
+  smoothing: OctaveSmoothing;
+}
+
+interface SerializedNullPayload {
+  sourceBuffers: ArrayBuffer[];
+  otherBuffers: ArrayBuffer[];
+  sampleRate: number;
+  lagSamples: number;
+  sourceGain: number;
+  otherGain: number;
+}
+
+interface SerializedDecodePayload {
+  bytes: ArrayBuffer;
 }
 
 let loudnessWorker: Worker | null = null;
@@ -111,12 +129,17 @@ const handleWorkerMessage = (event: MessageEvent<WorkerResultMessage>) => {
     return;
   }
 
+  if (data.type === "progress") {
+    pending.onProgress?.(data.progress);
+    return;
+  }
+
   pendingWorkerRequests.delete(data.id);
 
-  if (data.type === "result") {
-    pending.resolve(data.result);
-  } else {
+  if (data.type === "error") {
     pending.reject(new Error(data.error));
+  } else {
+    pending.resolve(data.result);
   }
 };
 
@@ -166,31 +189,47 @@ const serializeForWorker = (payload: LoudnessWorkerPayload): SerializedWorkerPay
   channelWeights: payload.channelWeights.slice(),
   blockSize: payload.blockSize,
   stepSize: payload.stepSize,
+  shortTermSize: payload.shortTermSize,
   totalSamples: payload.totalSamples,
   originalLength: payload.originalLength,
+  sampleRate: payload.sampleRate,
+  weightedSampleRate: payload.weightedSampleRate,
   absoluteGate: payload.absoluteGate,
   relativeGateOffset: payload.relativeGateOffset,
-  lufsOffset: payload.lufsOffset
+  lufsOffset: payload.lufsOffset,
+  overThresholdDb: payload.overThresholdDb
 });
 
-const postToWorker = (worker: Worker, payload: LoudnessWorkerPayload): Promise<LoudnessMetrics> => {
-  const serialized = serializeForWorker(payload);
-  const transferables = serialized.weightedBuffers.concat(serialized.originalBuffers);
+const nextWorkerMessageId = () => {
+  const id = workerMessageId;
+  workerMessageId += 1;
+  return id;
+};
 
-  return new Promise((resolve, reject) => {
-    const id = workerMessageId;
-    workerMessageId += 1;
-    pendingWorkerRequests.set(id, { resolve, reject });
+const postToWorker = <T>(
+  worker: Worker,
+  type: "analyze" | "align" | "spectrum" | "null" | "decode",
+  payload:
+    | SerializedWorkerPayload
+    | SerializedAlignPayload
+    | SerializedSpectrumPayload
+    | SerializedNullPayload
+    | SerializedDecodePayload,
+  transferables: Transferable[],
+  id = nextWorkerMessageId(),
+  onProgress?: (progress: number) => void
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    pendingWorkerRequests.set(id, { resolve: resolve as (value: unknown) => void, reject, onProgress });
     worker.postMessage(
       {
-        type: "analyze",
+        type,
         id,
-        payload: serialized
+        payload
       },
       transferables
     );
   });
-};
 
 const cloneChannels = (buffer: AudioBuffer, desiredChannels: number): Float32Array[] => {
   const cloned: Float32Array[] = [];
@@ -209,17 +248,32 @@ const cloneChannels = (buffer: AudioBuffer, desiredChannels: number): Float32Arr
 };
 
 const analyzeWithWorker = async (
-  payloadFactory: () => LoudnessWorkerPayload
-): Promise<LoudnessMetrics | null> => {
+  payloadFactory: () => LoudnessWorkerPayload,
+  ticket: AnalysisTicket | null,
+  onProgress?: (progress: number) => void
+): Promise<LoudnessAnalysis | null> => {
   const worker = ensureWorker();
   if (!worker) {
     return null;
   }
 
   try {
-    const payload = payloadFactory();
-    return await postToWorker(worker, payload);
+    const serialized = serializeForWorker(payloadFactory());
+    const transferables = serialized.weightedBuffers.concat(serialized.originalBuffers);
+    const id = nextWorkerMessageId();
+    if (ticket) {
+      ticket.onCancel = () => {
+        const pending = pendingWorkerRequests.get(id);
+        pendingWorkerRequests.delete(id);
+        worker.postMessage({ type: "cancel", id });
+        pending?.reject(new AnalysisSupersededError(ticket.slot));
+      };
+    }
+    return await postToWorker<LoudnessAnalysis>(worker, "analyze", serialized, transferables, id, onProgress);
   } catch (error) {
+    if (error instanceof AnalysisSupersededError) {
+      throw error;
+    }
     console.warn("Falling back to main-thread loudness analysis", error);
     rejectAllPending(error);
     teardownWorker();
@@ -245,13 +299,8 @@ const applyKWeighting = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
 
     if (typeof offlineContext.createIIRFilter === "function") {
       // Use the official BS.1770 cascade (spherical head shelf + RLB high-pass)
-      const headFilter = offlineContext.createIIRFilter(
-        HEAD_FILTER_FEEDFORWARD,
-        HEAD_FILTER_FEEDBACK
-      );
-      const rlbFilter = offlineContext.createIIRFilter(
-        RLB_FILTER_FEEDFORWARD,
-        RLB_FILTER_FEEDBACK
+      const [headFilter, rlbFilter] = designKWeighting(K_WEIGHT_SAMPLE_RATE).map(({ b0, b1, b2, a1, a2 }) =>
+        offlineContext.createIIRFilter([b0, b1, b2], [1, a1, a2])
       );
       source.connect(headFilter);
       headFilter.connect(rlbFilter);
@@ -284,45 +333,239 @@ const applyKWeighting = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
   }
 };
 
-export async function analyzeLoudness(buffer: AudioBuffer): Promise<LoudnessMetrics> {
-  const channelCount = buffer.numberOfChannels;
-  if (channelCount === 0) {
-    return { lufsIntegrated: null, peakDb: null };
+// Main-thread fallback: run the job in short slices so the page keeps painting.
+const FALLBACK_SLICE_MS = 16;
+
+const runJobOnMainThread = async (
+  payload: LoudnessWorkerPayload,
+  ticket: AnalysisTicket | null,
+  onProgress?: (progress: number) => void
+): Promise<LoudnessAnalysis> => {
+  const job = analyzeLoudnessJob(payload);
+  let sliceEnd = performance.now() + FALLBACK_SLICE_MS;
+  let step = job.next();
+  while (!step.done) {
+    if (performance.now() >= sliceEnd) {
+      onProgress?.(step.value);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (ticket?.cancelled) {
+        throw new AnalysisSupersededError(ticket.slot);
+      }
+      sliceEnd = performance.now() + FALLBACK_SLICE_MS;
+    }
+    step = job.next();
   }
+  return step.value;
+};
 
-  const weightedBuffer = await applyKWeighting(buffer);
-  const channelWeights = new Array(channelCount).fill(1);
-  if (channelCount === 6) {
-    // L, R, C, LFE, Ls, Rs — LFE excluded from loudness
-    channelWeights[3] = 0;
+/** Cancels the in-flight analysis for a slot; its promise rejects with `AnalysisSupersededError`. */
+export function cancelAnalysis(slot: string) {
+  const ticket = slotTickets.get(slot);
+  if (!ticket) {
+    return;
   }
 
-  const weightedSampleRate = weightedBuffer.sampleRate;
-  const blockSize = Math.max(1, Math.round(BLOCK_DURATION_SECONDS * weightedSampleRate));
-  const stepSize = Math.max(1, Math.round(STEP_DURATION_SECONDS * weightedSampleRate));
-  const totalSamples = weightedBuffer.length;
-  const originalLength = buffer.length;
-
-  const buildPayload = (): LoudnessWorkerPayload => ({
-    weightedChannels: cloneChannels(weightedBuffer, channelCount),
-    originalChannels: cloneChannels(buffer, channelCount),
-    channelWeights,
-    blockSize,
-    stepSize,
-    totalSamples,
-    originalLength,
-    absoluteGate: ABSOLUTE_GATE_LUFS,
-    relativeGateOffset: RELATIVE_GATE_OFFSET,
-    lufsOffset: LUFS_OFFSET
-  });
+  slotTickets.delete(slot);
+  ticket.cancelled = true;
+  ticket.onCancel?.();
+}
+
+export async function analyzeLoudness(
+  buffer: AudioBuffer,
+  { slot, onProgress, layout, overThresholdDb }: AnalysisOptions = {}
+): Promise<LoudnessAnalysis> {
+  let ticket: AnalysisTicket | null = null;
+  if (slot !== undefined) {
+    cancelAnalysis(slot);
+    ticket = { slot, cancelled: false, onCancel: null };
+    slotTickets.set(slot, ticket);
+  }
+
+  try {
+    const channelCount = buffer.numberOfChannels;
+    if (channelCount === 0) {
+      return {
+        lufsIntegrated: null,
+        peakDb: null,
+        truePeakDb: null,
+        truePeakChannelsDb: [],
+        truePeakTime: null,
+        momentaryMaxLufs: null,
+        shortTermMaxLufs: null,
+        loudnessRange: null,
+        rmsDb: null,
+        aWeightedDb: null,
+        clipCount: 0,
+        overCount: 0,
+        levelEvents: [],
+        envelope: null,
+        waveform: null,
+        steps: null
+      };
+    }
+
+    const weightedBuffer = await applyKWeighting(buffer);
+    if (ticket?.cancelled) {
+      throw new AnalysisSupersededError(ticket.slot);
+    }
+    const channelWeights = channelWeightsForLayout(layout ?? detectChannelLayout(channelCount), channelCount);
+
+    const buildPayload = (): LoudnessWorkerPayload =>
+      createLoudnessPayload(
+        cloneChannels(weightedBuffer, channelCount),
+        cloneChannels(buffer, channelCount),
+        channelWeights,
+        buffer.sampleRate,
+        weightedBuffer.sampleRate,
+        overThresholdDb
+      );
 
-  const peakDb = await computeTruePeakDb(buffer);
+    const workerResult = await analyzeWithWorker(buildPayload, ticket, onProgress);
+    if (workerResult) {
+      return workerResult;
+    }
 
-  const workerResult = await analyzeWithWorker(buildPayload);
-  if (workerResult) {
-    return { ...workerResult, peakDb };
+    if (ticket) {
+      ticket.onCancel = null;
+    }
+    return await runJobOnMainThread(buildPayload(), ticket, onProgress);
+  } finally {
+    if (ticket && slotTickets.get(ticket.slot) === ticket) {
+      slotTickets.delete(ticket.slot);
+    }
+  }
+}
+
+export function measureRegionLoudness(steps: LoudnessSteps, startSeconds: number, endSeconds: number) {
+  return computeRegionLoudness(
+    steps,
+    startSeconds,
+    endSeconds,
+    LOUDNESS_GATING,
+    Math.round(BLOCK_DURATION_SECONDS / STEP_DURATION_SECONDS)
+  );
+}
+
+export async function detectAlignment(
+  reference: AlignmentEnvelope,
+  target: AlignmentEnvelope
+): Promise<AlignmentResult> {
+  const worker = ensureWorker();
+  if (worker) {
+    try {
+      // Copies keep the caller's envelopes usable after the transfer.
+      const payload: SerializedAlignPayload = {
+        referenceEnvelope: reference.data.slice().buffer,
+        referenceRate: reference.rate,
+        targetEnvelope: target.data.slice().buffer,
+        targetRate: target.rate
+      };
+      return await postToWorker<AlignmentResult>(worker, "align", payload, [
+        payload.referenceEnvelope,
+        payload.targetEnvelope
+      ]);
+    } catch (error) {
+      console.warn("Falling back to main-thread alignment", error);
+    }
+  }
+
+  return detectAlignmentOffset(reference, target);
+}
+
+const mixdown = (buffer: AudioBuffer, startSeconds: number, endSeconds: number): Float32Array => {
+  const start = Math.max(0, Math.min(buffer.length, Math.floor(startSeconds * buffer.sampleRate)));
+  const end = Math.max(start, Math.min(buffer.length, Math.ceil(endSeconds * buffer.sampleRate)));
+  const mono = new Float32Array(end - start);
+  const scale = 1 / Math.max(1, buffer.numberOfChannels);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let i = start; i < end; i += 1) {
+      mono[i - start] += data[i] * scale;
+    }
+  }
+  return mono;
+};
+
+/** Long-term average spectrum of a mono mixdown, optionally limited to a time range. */
+export async function analyzeSpectrum(
+  buffer: AudioBuffer,
+  smoothing: OctaveSmoothing,
+  range: { start: number; end: number } | null = null
+): Promise<SpectrumCurve> {
+  const samples = mixdown(buffer, range?.start ?? 0, range?.end ?? buffer.duration);
+  const worker = ensureWorker();
+  if (worker) {
+    try {
+      const payload: SerializedSpectrumPayload = {
+        samples: samples.slice().buffer,
+        sampleRate: buffer.sampleRate,
+        smoothing
+      };
+      return await postToWorker<SpectrumCurve>(worker, "spectrum", payload, [payload.samples]);
+    } catch (error) {
+      console.warn("Falling back to main-thread spectrum analysis", error);
+    }
+  }
+
+  return computeSpectrum(samples, buffer.sampleRate, smoothing);
+}
+
+/**
+ * Offline null test: `source` minus `other`, with `other` shifted by
+ * `offsetSeconds` (positive when its content starts later) and both trims applied.
+ */
+export async function measureNullResidual(
+  source: AudioBuffer,
+  other: AudioBuffer,
+  options: { offsetSeconds: number; sourceGain: number; otherGain: number }
+): Promise<NullTestResult> {
+  if (source.sampleRate !== other.sampleRate) {
+    throw new Error("Null test needs both tracks at the same sample rate.");
+  }
+
+  const lagSamples = Math.round(options.offsetSeconds * source.sampleRate);
+  const worker = ensureWorker();
+  if (worker) {
+    try {
+      const payload: SerializedNullPayload = {
+        sourceBuffers: cloneChannels(source, source.numberOfChannels).map((channel) => channel.buffer),
+        otherBuffers: cloneChannels(other, other.numberOfChannels).map((channel) => channel.buffer),
+        sampleRate: source.sampleRate,
+        lagSamples,
+        sourceGain: options.sourceGain,
+        otherGain: options.otherGain
+      };
+      return await postToWorker<NullTestResult>(
+        worker,
+        "null",
+        payload,
+        payload.sourceBuffers.concat(payload.otherBuffers)
+      );
+    } catch (error) {
+      console.warn("Falling back to main-thread null test", error);
+    }
+  }
+
+  return computeNullResidual(
+    cloneChannels(source, source.numberOfChannels),
+    cloneChannels(other, other.numberOfChannels),
+    source.sampleRate,
+    { lagSamples, sourceGain: options.sourceGain, otherGain: options.otherGain }
+  );
+}
+
+/**
+ * Parses an uncompressed WAV/RF64/AIFF file in the worker, so long multichannel
+ * files don't block the page. Rejects when the worker can't decode the file.
+ */
+export async function decodePcmFile(data: ArrayBuffer): Promise<DecodedPcm> {
+  const worker = ensureWorker();
+  if (!worker) {
+    return decodePcm(new Uint8Array(data));
   }
 
-  const fallbackResult = computeLoudnessMetrics(buildPayload());
-  return { ...fallbackResult, peakDb };
+  // A copy is transferred so the caller can still hand the original to `decodeAudioData`.
+  const payload: SerializedDecodePayload = { bytes: data.slice(0) };
+  return postToWorker<DecodedPcm>(worker, "decode", payload, [payload.bytes]);
 }
@@ -0,0 +1,102 @@
+export type ChannelLayoutId = "mono" | "stereo" | "5.1" | "7.1" | "7.1.4" | "discrete";
+
+interface Speaker {
+  /** WAV speaker position the channel maps to. */
+  label: string;
+  /** Degrees, positive to the left. */
+  azimuth: number;
+  elevation: number;
+  lfe?: boolean;
+}
+
+export interface ChannelLayout {
+  id: ChannelLayoutId;
+  label: string;
+  speakers: Speaker[];
+  /** Other channel-mask orders that mean the same layout. */
+  aliases?: string[][];
+}
+
+const bed = (azimuth: number, label: string): Speaker => ({ label, azimuth, elevation: 0 });
+const height = (azimuth: number, label: string): Speaker => ({ label, azimuth, elevation: 45 });
+const LFE: Speaker = { label: "LFE", azimuth: 0, elevation: 0, lfe: true };
+
+const SURROUND_5_1 = [bed(30, "FL"), bed(-30, "FR"), bed(0, "FC"), LFE, bed(110, "BL"), bed(-110, "BR")];
+const SURROUND_7_1 = [
+  bed(30, "FL"),
+  bed(-30, "FR"),
+  bed(0, "FC"),
+  LFE,
+  bed(135, "BL"),
+  bed(-135, "BR"),
+  bed(90, "SL"),
+  bed(-90, "SR")
+];
+
+// Speaker positions follow ITU-R BS.2051; channel order follows the WAV channel mask.
+export const CHANNEL_LAYOUTS: ChannelLayout[] = [
+  { id: "mono", label: "Mono", speakers: [bed(0, "FC")] },
+  { id: "stereo", label: "Stereo", speakers: [bed(30, "FL"), bed(-30, "FR")] },
+  {
+    id: "5.1",
+    label: "5.1",
+    speakers: SURROUND_5_1,
+    aliases: [["FL", "FR", "FC", "LFE", "SL", "SR"]]
+  },
+  { id: "7.1", label: "7.1", speakers: SURROUND_7_1 },
+  {
+    id: "7.1.4",
+    label: "7.1.4",
+    speakers: [...SURROUND_7_1, height(45, "TFL"), height(-45, "TFR"), height(135, "TBL"), height(-135, "TBR")]
+  }
+];
+
+const DISCRETE: ChannelLayout = { id: "discrete", label: "Discrete (unweighted)", speakers: [] };
+
+export function findChannelLayout(id: ChannelLayoutId): ChannelLayout {
+  return CHANNEL_LAYOUTS.find((layout) => layout.id === id) ?? DISCRETE;
+}
+
+// BS.1770-4 table 3: +1.5 dB for ear-level channels between 60° and 120° off centre, LFE excluded.
+const speakerWeight = ({ azimuth, elevation, lfe }: Speaker) => {
+  if (lfe) return 0;
+  const offCentre = Math.abs(azimuth);
+  return Math.abs(elevation) < 30 && offCentre >= 60 && offCentre <= 120 ? 1.41 : 1;
+};
+
+/** Per-channel BS.1770 weights; channels the layout doesn't cover count at 1.0. */
+export function channelWeightsForLayout(id: ChannelLayoutId, channelCount: number): number[] {
+  const { speakers } = findChannelLayout(id);
+  return Array.from({ length: channelCount }, (_, index) => (speakers[index] ? speakerWeight(speakers[index]) : 1));
+}
+
+const sameLabels = (a: string[], b: string[]) => a.length === b.length && a.every((label, index) => label === b[index]);
+
+/** Layout whose speaker order matches the labels exactly, if any. */
+export function layoutFromLabels(labels: string[]): ChannelLayout | null {
+  return (
+    CHANNEL_LAYOUTS.find(
+      (layout) =>
+        sameLabels(
+          layout.speakers.map((speaker) => speaker.label),
+          labels
+        ) || layout.aliases?.some((alias) => sameLabels(alias, labels))
+    ) ?? null
+  );
+}
+
+/**
+ * Picks a layout from the decoder's channel labels when there are any,
+ * otherwise (browser-decoded files) from the channel count.
+ */
+export function detectChannelLayout(channelCount: number, labels?: string[] | null): ChannelLayoutId {
+  if (labels) {
+    return layoutFromLabels(labels)?.id ?? "discrete";
+  }
+  return CHANNEL_LAYOUTS.find((layout) => layout.speakers.length === channelCount)?.id ?? "discrete";
+}
+
+/** Layouts a user can pick for a file with this many channels. */
+export function channelLayoutOptions(channelCount: number): ChannelLayout[] {
+  return [...CHANNEL_LAYOUTS.filter((layout) => layout.speakers.length === channelCount), DISCRETE];
+}
@@ -0,0 +1,33 @@
+import { decodePcmFile } from "./audioAnalysis";
+import { detectPcmContainer, type PcmFormat } from "./pcmDecoder";
+
+export interface DecodedAudioFile {
+  buffer: AudioBuffer;
+  /** Native format details; null when the browser had to decode the file. */
+  format: PcmFormat | null;
+}
+
+/**
+ * Uncompressed files are decoded in-house, off the main thread, so the buffer
+ * keeps the file's own sample rate. Anything else, or a rate the browser can't
+ * hold, goes through `decodeAudioData`.
+ */
+export async function decodeAudioFile(context: BaseAudioContext, data: ArrayBuffer): Promise<DecodedAudioFile> {
+  const bytes = new Uint8Array(data);
+  if (detectPcmContainer(bytes)) {
+    try {
+      const { channels, length, ...format } = await decodePcmFile(data);
+      const buffer = new AudioBuffer({
+        numberOfChannels: Math.max(1, channels.length),
+        length: Math.max(1, length),
+        sampleRate: format.sampleRate
+      });
+      channels.forEach((samples, channel) => buffer.copyToChannel(samples, channel));
+      return { buffer, format };
+    } catch (error) {
+      console.warn("Falling back to decodeAudioData", error);
+    }
+  }
+
+  return { buffer: await context.decodeAudioData(data.slice(0)), format: null };
+}
@@ -0,0 +1,10 @@
+const AUDIO_EXTENSIONS = /\.(wav|wave|bwf|rf64|aif|aiff|aifc|flac|mp3|m4a|mp4|aac|ogg|oga|opus|webm|caf)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith("audio/") || AUDIO_EXTENSIONS.test(file.name);
+
+/** True while a drag carries files (contents are only readable on drop). */
+export const hasDraggedFiles = (dataTransfer: DataTransfer | null) =>
+  Array.from(dataTransfer?.types ?? []).includes("Files");
+
+export const audioFilesFrom = (dataTransfer: DataTransfer | null): File[] =>
+  Array.from(dataTransfer?.files ?? []).filter(isAudioFile);
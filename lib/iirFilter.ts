@@ -0,0 +1,129 @@
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** Analog second-order section as [s^0, s^1, s^2] coefficients. */
+export type AnalogSection = [number, number, number];
+
+export function bilinearSection(
+  numerator: AnalogSection,
+  denominator: AnalogSection,
+  sampleRate: number
+): BiquadCoefficients {
+  const k = 2 * sampleRate;
+  const k2 = k * k;
+  const [nb0, nb1, nb2] = numerator;
+  const [da0, da1, da2] = denominator;
+
+  const a0 = da2 * k2 + da1 * k + da0;
+  return {
+    b0: (nb2 * k2 + nb1 * k + nb0) / a0,
+    b1: (2 * nb0 - 2 * nb2 * k2) / a0,
+    b2: (nb2 * k2 - nb1 * k + nb0) / a0,
+    a1: (2 * da0 - 2 * da2 * k2) / a0,
+    a2: (da2 * k2 - da1 * k + da0) / a0
+  };
+}
+
+export function biquadMagnitude(section: BiquadCoefficients, frequency: number, sampleRate: number): number {
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+  const cos1 = Math.cos(omega);
+  const sin1 = Math.sin(omega);
+  const cos2 = Math.cos(2 * omega);
+  const sin2 = Math.sin(2 * omega);
+
+  const numRe = section.b0 + section.b1 * cos1 + section.b2 * cos2;
+  const numIm = -(section.b1 * sin1 + section.b2 * sin2);
+  const denRe = 1 + section.a1 * cos1 + section.a2 * cos2;
+  const denIm = -(section.a1 * sin1 + section.a2 * sin2);
+
+  return Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+}
+
+/** Transposed direct form II, accumulated in double precision. */
+export function applyBiquad(
+  input: Float32Array,
+  section: BiquadCoefficients,
+  output: Float32Array = new Float32Array(input.length)
+): Float32Array {
+  const { b0, b1, b2, a1, a2 } = section;
+  let z1 = 0;
+  let z2 = 0;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const x = input[i];
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b2 * x - a2 * y;
+    output[i] = y;
+  }
+
+  return output;
+}
+
+export function applyBiquadCascade(input: Float32Array, sections: BiquadCoefficients[]): Float32Array {
+  if (!sections.length) {
+    return input.slice();
+  }
+
+  const output = applyBiquad(input, sections[0]);
+  for (let i = 1; i < sections.length; i += 1) {
+    applyBiquad(output, sections[i], output);
+  }
+  return output;
+}
+
+/**
+ * Same cascade as `applyBiquadCascade`, but the filter state carries over between
+ * calls, so a long signal can be filtered one chunk at a time.
+ */
+export function createBiquadCascade(sections: BiquadCoefficients[]) {
+  const state = sections.map(() => ({ z1: 0, z2: 0 }));
+
+  return (input: Float32Array, output: Float32Array = new Float32Array(input.length)): Float32Array => {
+    output.set(input);
+    sections.forEach(({ b0, b1, b2, a1, a2 }, index) => {
+      let { z1, z2 } = state[index];
+      for (let i = 0; i < input.length; i += 1) {
+        const x = output[i];
+        const y = b0 * x + z1;
+        z1 = b1 * x - a1 * y + z2;
+        z2 = b2 * x - a2 * y;
+        output[i] = y;
+      }
+      state[index] = { z1, z2 };
+    });
+    return output;
+  };
+}
+
+// IEC 61672 A-weighting pole frequencies (Hz).
+const A_WEIGHT_POLES = [20.598997, 107.65265, 737.86223, 12194.217];
+
+export function designAWeighting(sampleRate: number): BiquadCoefficients[] {
+  // Pre-warp so the poles land on the right frequencies after the bilinear transform.
+  const [w1, w2, w3, w4] = A_WEIGHT_POLES.map(
+    (frequency) => 2 * sampleRate * Math.tan((Math.PI * Math.min(frequency, sampleRate * 0.49)) / sampleRate)
+  );
+
+  const sections = [
+    bilinearSection([0, 0, 1], [w1 * w1, 2 * w1, 1], sampleRate),
+    bilinearSection([0, 0, 1], [w4 * w4, 2 * w4, 1], sampleRate),
+    bilinearSection([1, 0, 0], [w2 * w3, w2 + w3, 1], sampleRate)
+  ];
+
+  const gainAt1k = sections.reduce((gain, section) => gain * biquadMagnitude(section, 1000, sampleRate), 1);
+  const normalize = gainAt1k > 0 ? 1 / gainAt1k : 1;
+  sections[0] = {
+    ...sections[0],
+    b0: sections[0].b0 * normalize,
+    b1: sections[0].b1 * normalize,
+    b2: sections[0].b2 * normalize
+  };
+
+  return sections;
+}
@@ -0,0 +1,44 @@
+import { applyBiquadCascade, type BiquadCoefficients } from "./iirFilter";
+
+// Analog prototypes of the ITU-R BS.1770 K-weighting stages. At 48 kHz they
+// reproduce the coefficient table in BS.1770-4; other rates get the same curve.
+const SHELF_FREQUENCY = 1681.974450955533;
+const SHELF_GAIN_DB = 3.999843853973347;
+const SHELF_Q = 0.7071752369554196;
+const SHELF_BANDWIDTH_EXPONENT = 0.4996667741545416;
+const HIGH_PASS_FREQUENCY = 38.13547087602444;
+const HIGH_PASS_Q = 0.5003270373238773;
+
+/** Stage 1 (spherical head shelf) followed by stage 2 (RLB high-pass). */
+export function designKWeighting(sampleRate: number): BiquadCoefficients[] {
+  const shelfK = Math.tan((Math.PI * SHELF_FREQUENCY) / sampleRate);
+  const vh = Math.pow(10, SHELF_GAIN_DB / 20);
+  const vb = Math.pow(vh, SHELF_BANDWIDTH_EXPONENT);
+  const shelfA0 = 1 + shelfK / SHELF_Q + shelfK * shelfK;
+
+  const highPassK = Math.tan((Math.PI * HIGH_PASS_FREQUENCY) / sampleRate);
+  const highPassA0 = 1 + highPassK / HIGH_PASS_Q + highPassK * highPassK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / SHELF_Q + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / SHELF_Q + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / SHELF_Q + shelfK * shelfK) / shelfA0
+    },
+    {
+      // BS.1770 specifies the high-pass numerator unnormalized.
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (highPassK * highPassK - 1)) / highPassA0,
+      a2: (1 - highPassK / HIGH_PASS_Q + highPassK * highPassK) / highPassA0
+    }
+  ];
+}
+
+export function applyKWeighting(channels: Float32Array[], sampleRate: number): Float32Array[] {
+  const sections = designKWeighting(sampleRate);
+  return channels.map((channel) => applyBiquadCascade(channel, sections));
+}
@@ -0,0 +1,98 @@
+import type { LevelEvent, LevelEventKind } from "./loudnessTypes";
+
+/** Default true-peak ceiling for overs, matching the common -1 dBTP delivery spec. */
+export const DEFAULT_OVER_THRESHOLD_DB = -1;
+
+// Largest 16-bit code; anything at or above it is treated as full scale.
+const CLIP_LEVEL = 32767 / 32768;
+// A single full-scale sample is a peak, not a clip.
+const MIN_CLIP_RUN = 3;
+// Runs closer than this merge, so a clipped passage reads as one event rather than one per cycle.
+const MERGE_GAP_SECONDS = 0.01;
+// Keeps worker messages small on badly clipped masters; counts stay exact.
+export const MAX_LEVEL_EVENTS = 1000;
+
+/** A run in sample positions; overs use fractional positions from the oversampled signal. */
+export interface LevelRun {
+  start: number;
+  end: number;
+  peak: number;
+}
+
+/** Collects over-threshold positions into runs, merging those within the merge gap. */
+export function createRunCollector(sampleRate: number) {
+  const mergeGap = MERGE_GAP_SECONDS * sampleRate;
+  const runs: LevelRun[] = [];
+  let current: LevelRun | null = null;
+
+  return {
+    add(position: number, amplitude: number, endPosition = position) {
+      if (current && position - current.end <= mergeGap) {
+        current.end = Math.max(current.end, endPosition);
+        current.peak = Math.max(current.peak, amplitude);
+        return;
+      }
+      if (current) runs.push(current);
+      current = { start: position, end: endPosition, peak: amplitude };
+    },
+    finish(): LevelRun[] {
+      if (current) runs.push(current);
+      current = null;
+      return runs;
+    }
+  };
+}
+
+/**
+ * Collects runs of at least `MIN_CLIP_RUN` consecutive full-scale samples. Samples
+ * are fed one at a time, in order, so a long channel can be scanned across job slices.
+ */
+export function createClipDetector(sampleRate: number) {
+  const collector = createRunCollector(sampleRate);
+  let runStart = -1;
+  let runPeak = 0;
+
+  const close = (end: number) => {
+    if (runStart >= 0 && end - runStart >= MIN_CLIP_RUN) {
+      collector.add(runStart, runPeak, end);
+    }
+    runStart = -1;
+    runPeak = 0;
+  };
+
+  return {
+    add(index: number, sample: number) {
+      const abs = Math.abs(sample);
+      if (abs >= CLIP_LEVEL) {
+        if (runStart < 0) runStart = index;
+        runPeak = Math.max(runPeak, abs);
+        return;
+      }
+      close(index);
+    },
+    finish(length: number): LevelRun[] {
+      close(length);
+      return collector.finish();
+    }
+  };
+}
+
+export const toLevelEvents = (
+  kind: LevelEventKind,
+  channel: number,
+  runs: LevelRun[],
+  sampleRate: number
+): LevelEvent[] =>
+  runs.map(({ start, end, peak }) => ({
+    kind,
+    channel,
+    time: Math.max(0, start) / sampleRate,
+    duration: Math.max(0, end - start) / sampleRate,
+    peakDb: 20 * Math.log10(peak)
+  }));
+
+export function formatLevelEvent(event: LevelEvent): string {
+  const level = `${event.peakDb.toFixed(2)} ${event.kind === "clip" ? "dBFS" : "dBTP"}`;
+  const duration = event.duration >= 0.001 ? `${(event.duration * 1000).toFixed(1)} ms` : "<1 ms";
+  return `${event.kind === "clip" ? "Clip" : "Over"} · ${duration} · ${level}`;
+}
@@ -1,4 +1,19 @@
-import { LoudnessMetrics } from "./loudnessTypes";
+import { createBiquadCascade, designAWeighting } from "./iirFilter";
+import {
+  DEFAULT_OVER_THRESHOLD_DB,
+  MAX_LEVEL_EVENTS,
+  createClipDetector,
+  createRunCollector,
+  toLevelEvents,
+  type LevelRun
+} from "./levelEvents";
+import { LevelEvent, LoudnessMetrics, LoudnessSteps } from "./loudnessTypes";
+
+export interface LoudnessGating {
+  absoluteGate: number;
+  relativeGateOffset: number;
+  lufsOffset: number;
+}
 
 export interface LoudnessWorkerPayload {
   weightedChannels: Float32Array[];
@@ -6,11 +21,219 @@ export interface LoudnessWorkerPayload {
   channelWeights: number[];
   blockSize: number;
   stepSize: number;
+  shortTermSize: number;
   totalSamples: number;
   originalLength: number;
+  sampleRate: number;
+  weightedSampleRate: number;
   absoluteGate: number;
   relativeGateOffset: number;
   lufsOffset: number;
+  /** True-peak level in dBTP above which oversampled runs are reported as overs. */
+  overThresholdDb: number;
+}
+
+export const BLOCK_DURATION_SECONDS = 0.4;
+export const STEP_DURATION_SECONDS = 0.1;
+export const SHORT_TERM_DURATION_SECONDS = 3;
+
+export const LOUDNESS_GATING: LoudnessGating = {
+  absoluteGate: -70,
+  relativeGateOffset: 10,
+  lufsOffset: -0.691
+};
+
+/** Builds the analysis payload from K-weighted and original channel data. */
+export function createLoudnessPayload(
+  weightedChannels: Float32Array[],
+  originalChannels: Float32Array[],
+  channelWeights: number[],
+  sampleRate: number,
+  weightedSampleRate: number,
+  overThresholdDb = DEFAULT_OVER_THRESHOLD_DB
+): LoudnessWorkerPayload {
+  return {
+    weightedChannels,
+    originalChannels,
+    channelWeights,
+    blockSize: Math.max(1, Math.round(BLOCK_DURATION_SECONDS * weightedSampleRate)),
+    stepSize: Math.max(1, Math.round(STEP_DURATION_SECONDS * weightedSampleRate)),
+    shortTermSize: Math.max(1, Math.round(SHORT_TERM_DURATION_SECONDS * weightedSampleRate)),
+    totalSamples: weightedChannels[0]?.length ?? 0,
+    originalLength: originalChannels[0]?.length ?? 0,
+    sampleRate,
+    weightedSampleRate,
+    ...LOUDNESS_GATING,
+    overThresholdDb
+  };
+}
+
+// EBU Tech 3342: short-term values are gated at -70 LUFS and 20 LU below their
+// own integrated level; LRA spans the 10th to 95th percentile of what remains.
+const LRA_RELATIVE_GATE_OFFSET = 20;
+const LRA_LOW_PERCENTILE = 0.1;
+const LRA_HIGH_PERCENTILE = 0.95;
+
+// ITU-R BS.1770-4 Annex 2: 48-tap, 4-phase interpolating FIR for 4x oversampling.
+const TRUE_PEAK_PHASES = [
+  [
+    0.001708984375, 0.010986328125, -0.0196533203125, 0.033203125, -0.0594482421875, 0.1373291015625,
+    0.97216796875, -0.102294921875, 0.0476074218750, -0.026611328125, 0.014892578125, -0.00830078125
+  ],
+  [
+    -0.0291748046875, 0.029296875, -0.0517578125, 0.089111328125, -0.166503906250, 0.465087890625,
+    0.77978515625, -0.2003173828125, 0.1015625, -0.0582275390625, 0.0330810546875, -0.0189208984375
+  ],
+  [
+    -0.0189208984375, 0.0330810546875, -0.0582275390625, 0.1015625, -0.2003173828125, 0.77978515625,
+    0.465087890625, -0.166503906250, 0.089111328125, -0.0517578125, 0.029296875, -0.0291748046875
+  ],
+  [
+    -0.00830078125, 0.014892578125, -0.026611328125, 0.0476074218750, -0.102294921875, 0.97216796875,
+    0.1373291015625, -0.0594482421875, 0.033203125, -0.0196533203125, 0.010986328125, 0.001708984375
+  ]
+];
+const TRUE_PEAK_TAPS = TRUE_PEAK_PHASES[0].length;
+// Phase 0 peaks at tap 6, so interpolated output n lags the input by ~6 samples.
+const TRUE_PEAK_DELAY = 6;
+
+const toDb = (amplitude: number): number | null => (amplitude > 0 ? 20 * Math.log10(amplitude) : null);
+
+/** Long-running work yields its 0–1 progress between chunks and returns the result. */
+export type ProgressJob<T> = Generator<number, T, void>;
+
+// Samples processed between yields, counted across channels; small enough that a
+// worker slice can stop, report progress and see a cancel within its time budget.
+const PROGRESS_CHUNK = 1 << 15;
+
+export function runToCompletion<T>(job: ProgressJob<T>): T {
+  let step = job.next();
+  while (!step.done) {
+    step = job.next();
+  }
+  return step.value;
+}
+
+
+function* computeChannelTruePeak(
+  data: Float32Array,
+  length: number,
+  sampleRate: number,
+  overThreshold: number
+): ProgressJob<{ peak: number; position: number; overs: LevelRun[]; clips: LevelRun[] }> {
+  const padding = TRUE_PEAK_TAPS - 1;
+  const padded = new Float32Array(length + padding * 2);
+  padded.set(data.subarray(0, length), padding);
+  const overs = createRunCollector(sampleRate);
+  const clips = createClipDetector(sampleRate);
+
+  let peak = 0;
+  let position = 0;
+  let samplePeak = 0;
+  let samplePosition = 0;
+  for (let n = 0; n < length + padding; n += 1) {
+    if (n % PROGRESS_CHUNK === 0) {
+      yield n / (length + padding);
+    }
+    if (n < length) {
+      const sample = data[n] ?? 0;
+      clips.add(n, sample);
+      if (Math.abs(sample) > samplePeak) {
+        samplePeak = Math.abs(sample);
+        samplePosition = n;
+      }
+    }
+    const newest = n + padding;
+    for (let phase = 0; phase < TRUE_PEAK_PHASES.length; phase += 1) {
+      const taps = TRUE_PEAK_PHASES[phase];
+      let sum = 0;
+      for (let tap = 0; tap < TRUE_PEAK_TAPS; tap += 1) {
+        sum += taps[tap] * padded[newest - tap];
+      }
+      const abs = Math.abs(sum);
+      if (abs > overThreshold) {
+        overs.add(n - TRUE_PEAK_DELAY + phase / TRUE_PEAK_PHASES.length, abs);
+      }
+      if (abs > peak) {
+        peak = abs;
+        position = n - TRUE_PEAK_DELAY + phase / TRUE_PEAK_PHASES.length;
+      }
+    }
+  }
+
+  // The interpolated signal can never legitimately read below the samples themselves.
+  if (samplePeak > peak) {
+    peak = samplePeak;
+    position = samplePosition;
+  }
+
+  return {
+    peak,
+    position: Math.max(0, Math.min(length - 1, position)),
+    overs: overs.finish(),
+    clips: clips.finish(length)
+  };
+}
+
+type PeakMetrics = Pick<
+  LoudnessMetrics,
+  "truePeakDb" | "truePeakChannelsDb" | "truePeakTime" | "clipCount" | "overCount" | "levelEvents"
+>;
+
+/** True peak per channel, plus clip runs and true-peak overs above `overThresholdDb`. */
+export function* computeTruePeakJob(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number,
+  overThresholdDb = DEFAULT_OVER_THRESHOLD_DB
+): ProgressJob<PeakMetrics> {
+  const overThreshold = Math.pow(10, overThresholdDb / 20);
+  let maxPeak = 0;
+  let maxPosition: number | null = null;
+  const truePeakChannelsDb: (number | null)[] = [];
+  let events: LevelEvent[] = [];
+  let clipCount = 0;
+  let overCount = 0;
+  for (let channel = 0; channel < channels.length; channel += 1) {
+    // Sub-jobs are stepped by hand: `yield*` needs downlevelIteration under the ES5 target.
+    const job = computeChannelTruePeak(channels[channel], length, sampleRate, overThreshold);
+    let step = job.next();
+    while (!step.done) {
+      yield (channel + step.value) / channels.length;
+      step = job.next();
+    }
+    const { peak, position, overs, clips } = step.value;
+    if (peak > maxPeak) {
+      maxPeak = peak;
+      maxPosition = position;
+    }
+    truePeakChannelsDb.push(toDb(peak));
+
+    clipCount += clips.length;
+    overCount += overs.length;
+    events = events.concat(
+      toLevelEvents("clip", channel, clips, sampleRate),
+      toLevelEvents("over", channel, overs, sampleRate)
+    );
+  }
+
+  return {
+    truePeakDb: toDb(maxPeak),
+    truePeakChannelsDb,
+    truePeakTime: maxPosition === null || sampleRate <= 0 ? null : maxPosition / sampleRate,
+    clipCount,
+    overCount,
+    levelEvents: events.sort((a, b) => a.time - b.time || a.channel - b.channel).slice(0, MAX_LEVEL_EVENTS)
+  };
+}
+
+export function computeTruePeak(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number,
+  overThresholdDb = DEFAULT_OVER_THRESHOLD_DB
+): PeakMetrics {
+  return runToCompletion(computeTruePeakJob(channels, length, sampleRate, overThresholdDb));
 }
 
 const toLUFS = (meanSquare: number, lufsOffset: number): number => {
@@ -32,28 +255,234 @@ const integrateBlocks = (meanSquares: number[], lufsOffset: number): number | nu
   return lufsOffset + 10 * Math.log10(energy);
 };
 
-export function computeLoudnessMetrics(payload: LoudnessWorkerPayload): LoudnessMetrics {
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * fraction)))];
+
+export function computeLoudnessSteps(
+  payload: Pick<
+    LoudnessWorkerPayload,
+    "weightedChannels" | "channelWeights" | "stepSize" | "totalSamples" | "weightedSampleRate"
+  >
+): LoudnessSteps {
+  const { weightedChannels, channelWeights, stepSize, totalSamples, weightedSampleRate } = payload;
+  const stepCount = Math.floor(totalSamples / stepSize);
+  const meanSquares = new Float32Array(stepCount);
+
+  for (let step = 0; step < stepCount; step += 1) {
+    const start = step * stepSize;
+    let energy = 0;
+    for (let channel = 0; channel < weightedChannels.length; channel += 1) {
+      const data = weightedChannels[channel];
+      let channelEnergy = 0;
+      for (let i = start; i < start + stepSize; i += 1) {
+        const sample = data[i] ?? 0;
+        channelEnergy += sample * sample;
+      }
+      energy += (channelWeights[channel] ?? 1) * channelEnergy;
+    }
+    meanSquares[step] = energy / stepSize;
+  }
+
+  return { meanSquares, stepSeconds: stepSize / weightedSampleRate };
+}
+
+const computeShortTermLoudness = (
+  steps: LoudnessSteps,
+  stepsPerWindow: number,
+  lufsOffset: number
+): number[] => {
+  const { meanSquares } = steps;
+  if (meanSquares.length < stepsPerWindow) {
+    return [];
+  }
+
+  // Slide the 3 s window across the per-hop values instead of rescanning samples.
+  const values: number[] = [];
+  let windowEnergy = 0;
+  for (let step = 0; step < meanSquares.length; step += 1) {
+    windowEnergy += meanSquares[step];
+    if (step >= stepsPerWindow) {
+      windowEnergy -= meanSquares[step - stepsPerWindow];
+    }
+    if (step >= stepsPerWindow - 1) {
+      values.push(toLUFS(Math.max(0, windowEnergy) / stepsPerWindow, lufsOffset));
+    }
+  }
+  return values;
+};
+
+const computeLoudnessRange = (
+  shortTermLufs: number[],
+  absoluteGate: number,
+  lufsOffset: number
+): number | null => {
+  const aboveAbsolute = shortTermLufs.filter((value) => value > absoluteGate);
+  if (aboveAbsolute.length === 0) {
+    return null;
+  }
+
+  const integrated = integrateBlocks(
+    aboveAbsolute.map((value) => Math.pow(10, (value - lufsOffset) / 10)),
+    lufsOffset
+  );
+  if (integrated === null) {
+    return null;
+  }
+
+  const gated = aboveAbsolute
+    .filter((value) => value >= integrated - LRA_RELATIVE_GATE_OFFSET)
+    .sort((a, b) => a - b);
+  if (gated.length === 0) {
+    return null;
+  }
+
+  return percentile(gated, LRA_HIGH_PERCENTILE) - percentile(gated, LRA_LOW_PERCENTILE);
+};
+
+// BS.1770 two-stage gate: absolute first, then relative to the preliminary level.
+const gateAndIntegrate = (meanSquares: number[], gating: LoudnessGating): number | null => {
+  const { absoluteGate, relativeGateOffset, lufsOffset } = gating;
+  const aboveAbsoluteGate = meanSquares.filter((value) => toLUFS(value, lufsOffset) > absoluteGate);
+  if (aboveAbsoluteGate.length === 0) {
+    return null;
+  }
+
+  const preliminaryLufs = integrateBlocks(aboveAbsoluteGate, lufsOffset);
+  if (preliminaryLufs === null) {
+    return null;
+  }
+
+  const relativeGateThreshold = preliminaryLufs - relativeGateOffset;
+  const aboveRelativeGate = aboveAbsoluteGate.filter(
+    (value) => toLUFS(value, lufsOffset) >= relativeGateThreshold
+  );
+
+  return integrateBlocks(aboveRelativeGate.length ? aboveRelativeGate : aboveAbsoluteGate, lufsOffset);
+};
+
+/** Gated loudness of a time range, built from 400 ms blocks of the stored 100 ms hops. */
+export function computeRegionLoudness(
+  steps: LoudnessSteps,
+  startSeconds: number,
+  endSeconds: number,
+  gating: LoudnessGating,
+  blockSteps = 4
+): number | null {
+  const first = Math.max(0, Math.floor(startSeconds / steps.stepSeconds));
+  const last = Math.min(steps.meanSquares.length, Math.ceil(endSeconds / steps.stepSeconds));
+  if (last <= first) {
+    return null;
+  }
+
+  const blocks: number[] = [];
+  const span = Math.min(blockSteps, last - first);
+  for (let start = first; start + span <= last; start += 1) {
+    let energy = 0;
+    for (let step = start; step < start + span; step += 1) {
+      energy += steps.meanSquares[step];
+    }
+    blocks.push(energy / span);
+  }
+
+  return gateAndIntegrate(blocks, gating);
+}
+
+const energySum = (data: Float32Array): number => {
+  let energy = 0;
+  for (let i = 0; i < data.length; i += 1) {
+    energy += data[i] * data[i];
+  }
+  return energy;
+};
+
+const meanSquareDb = (energy: number, count: number): number | null =>
+  count > 0 && energy > 0 ? 10 * Math.log10(energy / count) : null;
+
+/** Unweighted and A-weighted RMS across all channels, in dBFS. */
+export function* computeLevelMetricsJob(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number
+): ProgressJob<Pick<LoudnessMetrics, "rmsDb" | "aWeightedDb">> {
+  const sections = designAWeighting(sampleRate);
+  const scratch = new Float32Array(PROGRESS_CHUNK);
+  let energy = 0;
+  let weightedEnergy = 0;
+  for (let channel = 0; channel < channels.length; channel += 1) {
+    const filter = createBiquadCascade(sections);
+    for (let start = 0; start < length; start += PROGRESS_CHUNK) {
+      yield (channel + start / length) / channels.length;
+      const chunk = channels[channel].subarray(start, Math.min(length, start + PROGRESS_CHUNK));
+      energy += energySum(chunk);
+      weightedEnergy += energySum(filter(chunk, scratch.subarray(0, chunk.length)));
+    }
+  }
+
+  return {
+    rmsDb: meanSquareDb(energy, length * channels.length),
+    aWeightedDb: meanSquareDb(weightedEnergy, length * channels.length)
+  };
+}
+
+export function computeLevelMetrics(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number
+): Pick<LoudnessMetrics, "rmsDb" | "aWeightedDb"> {
+  return runToCompletion(computeLevelMetricsJob(channels, length, sampleRate));
+}
+
+// Rough share of the work in each pass; true-peak oversampling dominates.
+const SAMPLE_PEAK_SHARE = 0.02;
+const MOMENTARY_SHARE = 0.08;
+const TRUE_PEAK_SHARE = 0.8;
+const LEVEL_SHARE = 0.1;
+
+export function* computeLoudnessMetricsJob(
+  payload: LoudnessWorkerPayload,
+  steps: LoudnessSteps = computeLoudnessSteps(payload)
+): ProgressJob<LoudnessMetrics> {
   const {
     weightedChannels,
     originalChannels,
     channelWeights,
     blockSize,
     stepSize,
+    shortTermSize,
     totalSamples,
     originalLength,
+    sampleRate,
     absoluteGate,
     relativeGateOffset,
-    lufsOffset
+    lufsOffset,
+    overThresholdDb
   } = payload;
 
   if (!weightedChannels.length || !originalChannels.length) {
-    return { lufsIntegrated: null, peakDb: null };
+    return {
+      lufsIntegrated: null,
+      peakDb: null,
+      truePeakDb: null,
+      truePeakChannelsDb: [],
+      truePeakTime: null,
+      momentaryMaxLufs: null,
+      shortTermMaxLufs: null,
+      loudnessRange: null,
+      rmsDb: null,
+      aWeightedDb: null,
+      clipCount: 0,
+      overCount: 0,
+      levelEvents: []
+    };
   }
 
   let absolutePeak = 0;
   for (let channel = 0; channel < originalChannels.length; channel += 1) {
     const data = originalChannels[channel];
     for (let i = 0; i < originalLength; i += 1) {
+      if (i % PROGRESS_CHUNK === 0) {
+        yield ((channel + i / originalLength) / originalChannels.length) * SAMPLE_PEAK_SHARE;
+      }
       const abs = Math.abs(data[i] ?? 0);
       if (abs > absolutePeak) {
         absolutePeak = abs;
@@ -62,13 +491,19 @@ export function computeLoudnessMetrics(payload: LoudnessWorkerPayload): Loudness
   }
 
   const meanSquares: number[] = [];
-  const lufsPerBlock: number[] = [];
+  let momentaryMax = Number.NEGATIVE_INFINITY;
+  let sinceYield = 0;
 
   for (let blockStart = 0; blockStart < totalSamples; blockStart += stepSize) {
+    if (sinceYield >= PROGRESS_CHUNK) {
+      sinceYield = 0;
+      yield SAMPLE_PEAK_SHARE + (blockStart / totalSamples) * MOMENTARY_SHARE;
+    }
     const actualBlockSize = Math.min(blockSize, totalSamples - blockStart);
     if (actualBlockSize <= 0) {
       continue;
     }
+    sinceYield += actualBlockSize * weightedChannels.length;
 
     let blockEnergy = 0;
 
@@ -83,48 +518,56 @@ export function computeLoudnessMetrics(payload: LoudnessWorkerPayload): Loudness
     }
 
     const meanSquare = blockEnergy;
+    const blockLufs = toLUFS(meanSquare, lufsOffset);
     meanSquares.push(meanSquare);
-    lufsPerBlock.push(toLUFS(meanSquare, lufsOffset));
-  }
-
-  const peakDb = absolutePeak > 0 ? Math.min(20 * Math.log10(absolutePeak), 0) : null;
-
-  if (meanSquares.length === 0) {
-    return { lufsIntegrated: null, peakDb };
+    // Trailing partial blocks are too short to count as a momentary reading.
+    if (actualBlockSize === blockSize && blockLufs > momentaryMax) {
+      momentaryMax = blockLufs;
+    }
   }
 
-  const aboveAbsoluteGate: number[] = [];
-  const aboveAbsoluteGateLufs: number[] = [];
+  // Unclamped on purpose: float sources can and do go over full scale.
+  const peakDb = toDb(absolutePeak);
 
-  for (let i = 0; i < meanSquares.length; i += 1) {
-    if (lufsPerBlock[i] > absoluteGate) {
-      aboveAbsoluteGate.push(meanSquares[i]);
-      aboveAbsoluteGateLufs.push(lufsPerBlock[i]);
-    }
-  }
+  const shortTermLufs = computeShortTermLoudness(
+    steps,
+    Math.max(1, Math.round(shortTermSize / stepSize)),
+    lufsOffset
+  );
+  const shortTermMax = shortTermLufs.reduce((max, value) => Math.max(max, value), Number.NEGATIVE_INFINITY);
 
-  if (aboveAbsoluteGate.length === 0) {
-    return { lufsIntegrated: null, peakDb };
+  const truePeakJob = computeTruePeakJob(originalChannels, originalLength, sampleRate, overThresholdDb);
+  let truePeakStep = truePeakJob.next();
+  while (!truePeakStep.done) {
+    yield SAMPLE_PEAK_SHARE + MOMENTARY_SHARE + truePeakStep.value * TRUE_PEAK_SHARE;
+    truePeakStep = truePeakJob.next();
   }
 
-  const preliminaryLufs = integrateBlocks(aboveAbsoluteGate, lufsOffset);
-  if (preliminaryLufs === null) {
-    return { lufsIntegrated: null, peakDb };
+  const levelJob = computeLevelMetricsJob(originalChannels, originalLength, sampleRate);
+  let levelStep = levelJob.next();
+  while (!levelStep.done) {
+    yield SAMPLE_PEAK_SHARE + MOMENTARY_SHARE + TRUE_PEAK_SHARE + levelStep.value * LEVEL_SHARE;
+    levelStep = levelJob.next();
   }
 
-  const relativeGateThreshold = preliminaryLufs - relativeGateOffset;
-
-  const aboveRelativeGate: number[] = [];
-  for (let i = 0; i < aboveAbsoluteGate.length; i += 1) {
-    if (aboveAbsoluteGateLufs[i] >= relativeGateThreshold) {
-      aboveRelativeGate.push(aboveAbsoluteGate[i]);
-    }
-  }
+  const dynamics = {
+    ...truePeakStep.value,
+    momentaryMaxLufs: Number.isFinite(momentaryMax) ? momentaryMax : null,
+    shortTermMaxLufs: Number.isFinite(shortTermMax) ? shortTermMax : null,
+    loudnessRange: computeLoudnessRange(shortTermLufs, absoluteGate, lufsOffset),
+    ...levelStep.value
+  };
 
-  const finalLufs = integrateBlocks(
-    aboveRelativeGate.length ? aboveRelativeGate : aboveAbsoluteGate,
-    lufsOffset
-  );
+  return {
+    lufsIntegrated: gateAndIntegrate(meanSquares, { absoluteGate, relativeGateOffset, lufsOffset }),
+    peakDb,
+    ...dynamics
+  };
+}
 
-  return { lufsIntegrated: finalLufs, peakDb };
+export function computeLoudnessMetrics(
+  payload: LoudnessWorkerPayload,
+  steps: LoudnessSteps = computeLoudnessSteps(payload)
+): LoudnessMetrics {
+  return runToCompletion(computeLoudnessMetricsJob(payload, steps));
 }
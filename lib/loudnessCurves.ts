@@ -0,0 +1,36 @@
+import { BLOCK_DURATION_SECONDS, LOUDNESS_GATING, SHORT_TERM_DURATION_SECONDS } from "./loudnessCore";
+import type { LoudnessSteps } from "./loudnessTypes";
+
+/** Loudness over time, one value per 100 ms hop. */
+export interface LoudnessCurves {
+  stepSeconds: number;
+  /** LUFS of the 400 ms window ending with each hop; -Infinity in digital silence. */
+  momentary: Float32Array;
+  /** LUFS of the 3 s window ending with each hop. */
+  shortTerm: Float32Array;
+}
+
+// Windows still filling at the start average the hops they have, so the curve starts at 0 s.
+const slidingLoudness = (meanSquares: Float32Array, hopsPerWindow: number): Float32Array => {
+  const values = new Float32Array(meanSquares.length);
+  let windowEnergy = 0;
+  for (let hop = 0; hop < meanSquares.length; hop += 1) {
+    windowEnergy += meanSquares[hop];
+    if (hop >= hopsPerWindow) {
+      windowEnergy -= meanSquares[hop - hopsPerWindow];
+    }
+    const meanSquare = Math.max(0, windowEnergy) / Math.min(hop + 1, hopsPerWindow);
+    values[hop] = meanSquare > 0 ? LOUDNESS_GATING.lufsOffset + 10 * Math.log10(meanSquare) : Number.NEGATIVE_INFINITY;
+  }
+  return values;
+};
+
+export function computeLoudnessCurves(steps: LoudnessSteps): LoudnessCurves {
+  const { meanSquares, stepSeconds } = steps;
+  const hops = (seconds: number) => Math.max(1, Math.round(seconds / stepSeconds));
+  return {
+    stepSeconds,
+    momentary: slidingLoudness(meanSquares, hops(BLOCK_DURATION_SECONDS)),
+    shortTerm: slidingLoudness(meanSquares, hops(SHORT_TERM_DURATION_SECONDS))
+  };
+}
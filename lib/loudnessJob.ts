@@ -0,0 +1,33 @@
+import { computeAlignmentEnvelope } from "./alignmentCore";
+import {
+  computeLoudnessMetricsJob,
+  computeLoudnessSteps,
+  type LoudnessWorkerPayload,
+  type ProgressJob
+} from "./loudnessCore";
+import type { LoudnessAnalysis } from "./loudnessTypes";
+import { computeWaveformPeaks } from "./waveformCore";
+
+const STEPS_SHARE = 0.05;
+const METRICS_SHARE = 0.85;
+const ENVELOPE_SHARE = 0.05;
+
+/** The full `analyze` result as a resumable job, shared by the worker and the main-thread fallback. */
+export function* analyzeLoudnessJob(payload: LoudnessWorkerPayload): ProgressJob<LoudnessAnalysis> {
+  const steps = computeLoudnessSteps(payload);
+  yield STEPS_SHARE;
+
+  const metricsJob = computeLoudnessMetricsJob(payload, steps);
+  let metricsStep = metricsJob.next();
+  while (!metricsStep.done) {
+    yield STEPS_SHARE + metricsStep.value * METRICS_SHARE;
+    metricsStep = metricsJob.next();
+  }
+
+  const { originalChannels, originalLength, sampleRate } = payload;
+  const envelope = computeAlignmentEnvelope(originalChannels, originalLength, sampleRate);
+  yield STEPS_SHARE + METRICS_SHARE + ENVELOPE_SHARE;
+
+  const waveform = computeWaveformPeaks(originalChannels, originalLength, sampleRate);
+  return { ...metricsStep.value, envelope, waveform, steps };
+}
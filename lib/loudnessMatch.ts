@@ -1,3 +1,68 @@
+import { findPlatformProfile } from "./platformProfiles";
+
+export type MatchStrategy =
+  | { kind: "quietest" }
+  | { kind: "target"; targetLufs: number }
+  | { kind: "reference"; trackId: string }
+  | { kind: "loop" }
+  | { kind: "rms" }
+  | { kind: "aWeighted" }
+  | { kind: "platform"; profileId: string };
+
+export const MATCH_TARGETS_LUFS = [-14, -16, -23];
+
+// Boosts stop short of this true-peak ceiling instead of pushing a track into clipping.
+export const BOOST_CEILING_DBTP = -1;
+
+export function matchStrategyKey(strategy: MatchStrategy): string {
+  switch (strategy.kind) {
+    case "target":
+      return `target:${strategy.targetLufs}`;
+    case "reference":
+      return `reference:${strategy.trackId}`;
+    case "platform":
+      return `platform:${strategy.profileId}`;
+    default:
+      return strategy.kind;
+  }
+}
+
+export function parseMatchStrategy(key: string): MatchStrategy {
+  const [kind, argument] = key.split(":");
+  if (kind === "target" && Number.isFinite(Number(argument))) {
+    return { kind, targetLufs: Number(argument) };
+  }
+  if (kind === "reference" && argument) {
+    return { kind, trackId: argument };
+  }
+  if (kind === "platform" && argument && findPlatformProfile(argument)) {
+    return { kind, profileId: argument };
+  }
+  if (kind === "loop" || kind === "rms" || kind === "aWeighted") {
+    return { kind };
+  }
+  return { kind: "quietest" };
+}
+
+export function describeMatchStrategy(strategy: MatchStrategy, trackName: (id: string) => string): string {
+  switch (strategy.kind) {
+    case "target":
+      return `${strategy.targetLufs} LUFS target`;
+    case "reference":
+      return `match ${trackName(strategy.trackId)}`;
+    case "loop":
+      return "loop loudness";
+    case "rms":
+      return "RMS";
+    case "aWeighted":
+      return "A-weighted";
+    case "platform":
+      return findPlatformProfile(strategy.profileId)?.label ?? strategy.profileId;
+    default:
+      return "quietest track";
+  }
+}
+
 export function computeLoudnessOffsets(
   lufsByTrack: Record<string, number | null>,
   capDb = 12
@@ -33,3 +98,32 @@ export function computeLoudnessOffsets(
 export function offsetToGain(offsetDb: number): number {
   return Math.pow(10, -offsetDb / 20);
 }
+
+/**
+ * Signed offsets that bring every measured level to `target`. Positive values
+ * attenuate; boosts are capped by each track's true-peak headroom.
+ */
+export function computeOffsetsToTarget(
+  levelsByTrack: Record<string, number | null>,
+  target: number,
+  truePeakByTrack: Record<string, number | null> = {},
+  capDb = 12
+): Record<string, number> {
+  const result: Record<string, number> = {};
+
+  Object.entries(levelsByTrack).forEach(([key, value]) => {
+    if (typeof value !== "number" || !Number.isFinite(value) || !Number.isFinite(target)) {
+      result[key] = 0;
+      return;
+    }
+
+    let offset = Math.min(Math.max(value - target, -capDb), capDb);
+    const truePeak = truePeakByTrack[key];
+    if (offset < 0 && typeof truePeak === "number" && Number.isFinite(truePeak)) {
+      offset = Math.max(offset, Math.min(0, truePeak - BOOST_CEILING_DBTP));
+    }
+    result[key] = offset;
+  });
+
+  return result;
+}
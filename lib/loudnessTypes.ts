@@ -1,4 +1,71 @@
+export type LevelEventKind = "clip" | "over";
+
+/** A run of full-scale samples (`clip`) or of oversampled values above the over threshold (`over`). */
+export interface LevelEvent {
+  kind: LevelEventKind;
+  channel: number;
+  /** Start of the run, in seconds. */
+  time: number;
+  duration: number;
+  /** Highest level in the run: dBFS for clips, dBTP for overs. */
+  peakDb: number;
+}
+
 export interface LoudnessMetrics {
   lufsIntegrated: number | null;
   peakDb: number | null;
+  truePeakDb: number | null;
+  truePeakChannelsDb: (number | null)[];
+  truePeakTime: number | null;
+  momentaryMaxLufs: number | null;
+  shortTermMaxLufs: number | null;
+  loudnessRange: number | null;
+  rmsDb: number | null;
+  aWeightedDb: number | null;
+  clipCount: number;
+  overCount: number;
+  /** Clips and overs in time order, capped at `MAX_LEVEL_EVENTS`. */
+  levelEvents: LevelEvent[];
+}
+
+export interface AlignmentEnvelope {
+  data: Float32Array;
+  rate: number;
+}
+
+/** K-weighted, channel-weighted mean square of each 100 ms hop. */
+export interface LoudnessSteps {
+  meanSquares: Float32Array;
+  stepSeconds: number;
+}
+
+export interface LoudnessAnalysis extends LoudnessMetrics {
+  envelope: AlignmentEnvelope | null;
+  waveform: WaveformPeaks | null;
+  steps: LoudnessSteps | null;
+}
+
+export interface AlignmentResult {
+  offsetSeconds: number;
+  confidence: number;
+}
+
+export interface WaveformLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number;
+  levels: WaveformLevel[];
+}
+
+export type OctaveSmoothing = 3 | 6;
+
+/** Long-term average spectrum on a log-spaced frequency grid. */
+export interface SpectrumCurve {
+  frequencies: Float32Array;
+  levelsDb: Float32Array;
 }
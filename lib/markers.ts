@@ -0,0 +1,76 @@
+export interface Marker {
+  id: string;
+  /** Timeline seconds (reference track time). */
+  time: number;
+  /** Slot the note is about, or null for the comparison as a whole. */
+  trackId: string | null;
+  text: string;
+  createdAt: number;
+}
+
+export interface MarkerExport {
+  version: 1;
+  exportedAt: string;
+  /** File loaded in each slot at export time, so notes can follow files on import. */
+  files: Record<string, string | null>;
+  markers: Marker[];
+}
+
+let markerCounter = 0;
+
+export function createMarker(time: number, trackId: string | null, text = ""): Marker {
+  markerCounter += 1;
+  return {
+    id: `marker-${Date.now().toString(36)}-${markerCounter}`,
+    time: Math.max(0, time),
+    trackId,
+    text,
+    createdAt: Date.now()
+  };
+}
+
+export const sortMarkers = (markers: Marker[]) => markers.slice().sort((a, b) => a.time - b.time);
+
+export function buildMarkerExport(markers: Marker[], files: Record<string, string | null>): MarkerExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    files,
+    markers: sortMarkers(markers)
+  };
+}
+
+/**
+ * Validates an imported marker file. Tags are remapped to whichever slot now
+ * holds the same file name; tags for files that aren't loaded fall back to the
+ * original slot.
+ */
+export function parseMarkerImport(data: unknown, currentFiles: Record<string, string | null>): Marker[] {
+  if (!data || typeof data !== "object" || !Array.isArray((data as MarkerExport).markers)) {
+    throw new Error("Not a marker file.");
+  }
+
+  const { markers, files = {} } = data as Partial<MarkerExport> & { markers: unknown[] };
+  const slotForFile = new Map<string, string>();
+  Object.entries(currentFiles).forEach(([slot, name]) => {
+    if (name) slotForFile.set(name, slot);
+  });
+
+  return markers.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const { id, time, trackId, text, createdAt } = entry as Partial<Marker>;
+    if (typeof time !== "number" || !Number.isFinite(time)) return [];
+
+    const originalTrack = typeof trackId === "string" ? trackId : null;
+    const fileName = originalTrack ? files[originalTrack] : null;
+    const marker = createMarker(time, fileName ? slotForFile.get(fileName) ?? originalTrack : originalTrack);
+    return [
+      {
+        ...marker,
+        id: typeof id === "string" ? id : marker.id,
+        text: typeof text === "string" ? text : "",
+        createdAt: typeof createdAt === "number" ? createdAt : marker.createdAt
+      }
+    ];
+  });
+}
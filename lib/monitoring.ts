@@ -0,0 +1,90 @@
+export type MonitorMode = "stereo" | "mono" | "mid" | "side" | "left" | "right" | "swap";
+
+export const MONITOR_MODES: { id: MonitorMode; label: string }[] = [
+  { id: "stereo", label: "Stereo" },
+  { id: "mono", label: "Mono" },
+  { id: "mid", label: "Mid" },
+  { id: "side", label: "Side" },
+  { id: "left", label: "L only" },
+  { id: "right", label: "R only" },
+  { id: "swap", label: "L/R swap" }
+];
+
+/** [L→L, R→L, L→R, R→R] gains of the 2×2 monitoring matrix. */
+export type MonitorMatrix = [number, number, number, number];
+
+const HALF = 0.5;
+// Mid/side use the power-preserving form so M² + S² = L² + R² and the two read comparably.
+const MS = Math.SQRT1_2;
+
+export function monitorMatrix(mode: MonitorMode): MonitorMatrix {
+  switch (mode) {
+    case "mono":
+      return [HALF, HALF, HALF, HALF];
+    case "mid":
+      return [MS, MS, MS, MS];
+    case "side":
+      return [MS, -MS, MS, -MS];
+    case "left":
+      return [1, 0, 1, 0];
+    case "right":
+      return [0, 1, 0, 1];
+    case "swap":
+      return [0, 1, 1, 0];
+    default:
+      return [1, 0, 0, 1];
+  }
+}
+
+export interface MonitorChain {
+  input: AudioNode;
+  setMode: (mode: MonitorMode) => void;
+}
+
+/**
+ * Shared stereo bus every track feeds into, so the monitoring mode survives
+ * focus switches and source rebuilds. Mono and surround inputs are up/down-mixed
+ * to stereo by the input node before the matrix.
+ */
+export function createMonitorChain(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  mode: MonitorMode
+): MonitorChain {
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = "explicit";
+  input.channelInterpretation = "speakers";
+
+  const splitter = context.createChannelSplitter(2);
+  const merger = context.createChannelMerger(2);
+  const cells = [0, 1, 2, 3].map(() => context.createGain());
+
+  input.connect(splitter);
+  // Cell order matches MonitorMatrix: [L→L, R→L, L→R, R→R].
+  splitter.connect(cells[0], 0);
+  splitter.connect(cells[1], 1);
+  splitter.connect(cells[2], 0);
+  splitter.connect(cells[3], 1);
+  cells[0].connect(merger, 0, 0);
+  cells[1].connect(merger, 0, 0);
+  cells[2].connect(merger, 0, 1);
+  cells[3].connect(merger, 0, 1);
+  merger.connect(destination);
+
+  const apply = (next: MonitorMode, smooth: boolean) => {
+    const now = context.currentTime;
+    monitorMatrix(next).forEach((value, index) => {
+      const { gain } = cells[index];
+      gain.cancelScheduledValues(now);
+      if (smooth) {
+        gain.setTargetAtTime(value, now, 0.01);
+      } else {
+        gain.value = value;
+      }
+    });
+  };
+
+  apply(mode, false);
+  return { input, setMode: (next) => apply(next, true) };
+}
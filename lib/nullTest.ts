@@ -0,0 +1,69 @@
+export interface NullTestOptions {
+  /** Samples the other track's content is delayed relative to the source. */
+  lagSamples: number;
+  sourceGain: number;
+  otherGain: number;
+}
+
+export interface NullTestResult {
+  /** Residual RMS relative to the (trimmed) source; null when the residual is silent. */
+  residualRmsDb: number | null;
+  residualPeakDb: number | null;
+  bitIdentical: boolean;
+  comparedSeconds: number;
+  lagSamples: number;
+}
+
+const ratioDb = (value: number, reference: number, scale: number): number | null =>
+  value > 0 && reference > 0 ? scale * Math.log10(value / reference) : null;
+
+/**
+ * Subtracts `other` from `source` sample by sample over their overlap. Gains
+ * apply to the residual figures only; the bit-identical verdict compares raw samples.
+ */
+export function computeNullResidual(
+  source: Float32Array[],
+  other: Float32Array[],
+  sampleRate: number,
+  { lagSamples, sourceGain, otherGain }: NullTestOptions
+): NullTestResult {
+  const channels = Math.min(source.length, other.length);
+  const sourceLength = source[0]?.length ?? 0;
+  const otherLength = other[0]?.length ?? 0;
+  const start = Math.max(0, -lagSamples);
+  const end = Math.min(sourceLength, otherLength - lagSamples);
+  const overlap = Math.max(0, end - start);
+
+  let identical =
+    source.length === other.length && lagSamples === 0 && sourceLength === otherLength && overlap > 0;
+  let residualEnergy = 0;
+  let sourceEnergy = 0;
+  let residualPeak = 0;
+  let sourcePeak = 0;
+
+  for (let channel = 0; channel < channels; channel += 1) {
+    const a = source[channel];
+    const b = other[channel];
+    for (let i = start; i < end; i += 1) {
+      const raw = a[i];
+      const compared = b[i + lagSamples];
+      if (identical && raw !== compared) {
+        identical = false;
+      }
+      const scaled = raw * sourceGain;
+      const residual = scaled - compared * otherGain;
+      residualEnergy += residual * residual;
+      sourceEnergy += scaled * scaled;
+      residualPeak = Math.max(residualPeak, Math.abs(residual));
+      sourcePeak = Math.max(sourcePeak, Math.abs(scaled));
+    }
+  }
+
+  return {
+    residualRmsDb: ratioDb(residualEnergy, sourceEnergy, 10),
+    residualPeakDb: ratioDb(residualPeak, sourcePeak, 20),
+    bitIdentical: identical,
+    comparedSeconds: sampleRate > 0 ? overlap / sampleRate : 0,
+    lagSamples
+  };
+}
@@ -0,0 +1,379 @@
+import { layoutFromLabels } from "./channelLayouts";
+
+export type PcmContainer = "wav" | "rf64" | "aiff" | "aifc";
+
+export type PcmEncoding = "pcm" | "float";
+
+/** Broadcast Wave `bext` chunk (EBU Tech 3285). */
+export interface BroadcastExtension {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  originationDate: string;
+  originationTime: string;
+  /** Samples since midnight of the first sample. */
+  timeReference: number;
+}
+
+export interface PcmFormat {
+  container: PcmContainer;
+  encoding: PcmEncoding;
+  sampleRate: number;
+  /** Significant bits per sample, which may be fewer than the stored width. */
+  bitDepth: number;
+  channelCount: number;
+  /** WAVE_FORMAT_EXTENSIBLE speaker mask, when the file declares one. */
+  channelMask: number | null;
+  /** Speaker position of each channel, e.g. FL, FR, FC, LFE. */
+  channelLabels: string[];
+  bext: BroadcastExtension | null;
+}
+
+export interface DecodedPcm extends PcmFormat {
+  length: number;
+  channels: Float32Array[];
+}
+
+interface SampleLayout {
+  channelCount: number;
+  bytesPerSample: number;
+  encoding: PcmEncoding;
+  littleEndian: boolean;
+  /** 8-bit WAV is unsigned; 8-bit AIFF is signed. */
+  unsigned8: boolean;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// RF64 writes this in 32-bit size fields and keeps the real value in ds64.
+const RF64_SIZE_PLACEHOLDER = 0xffffffff;
+
+// Bit order of the WAVE_FORMAT_EXTENSIBLE dwChannelMask.
+const SPEAKER_POSITIONS = [
+  "FL", "FR", "FC", "LFE", "BL", "BR", "FLC", "FRC", "BC",
+  "SL", "SR", "TC", "TFL", "TFC", "TFR", "TBL", "TBC", "TBR"
+];
+
+// Orders assumed when a file carries no mask, following the WAV defaults.
+const DEFAULT_CHANNEL_LABELS: Record<number, string[]> = {
+  1: ["FC"],
+  2: ["FL", "FR"],
+  6: ["FL", "FR", "FC", "LFE", "BL", "BR"],
+  8: ["FL", "FR", "FC", "LFE", "BL", "BR", "SL", "SR"],
+  12: ["FL", "FR", "FC", "LFE", "BL", "BR", "SL", "SR", "TFL", "TFR", "TBL", "TBR"]
+};
+
+const AIFC_ENCODINGS: Record<string, Pick<SampleLayout, "encoding" | "littleEndian"> & { bits?: number }> = {
+  NONE: { encoding: "pcm", littleEndian: false },
+  twos: { encoding: "pcm", littleEndian: false },
+  sowt: { encoding: "pcm", littleEndian: true },
+  in24: { encoding: "pcm", littleEndian: false, bits: 24 },
+  in32: { encoding: "pcm", littleEndian: false, bits: 32 },
+  fl32: { encoding: "float", littleEndian: false, bits: 32 },
+  FL32: { encoding: "float", littleEndian: false, bits: 32 },
+  fl64: { encoding: "float", littleEndian: false, bits: 64 },
+  FL64: { encoding: "float", littleEndian: false, bits: 64 }
+};
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = "";
+  for (let i = 0; i < length && offset + i < view.byteLength; i += 1) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+// AIFF stores the sample rate as an 80-bit IEEE 754 extended float.
+const readExtended = (view: DataView, offset: number) => {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const hi = view.getUint32(offset + 2);
+  const lo = view.getUint32(offset + 6);
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+  const sign = view.getUint16(offset) & 0x8000 ? -1 : 1;
+  return sign * (hi * Math.pow(2, exponent - 16383 - 31) + lo * Math.pow(2, exponent - 16383 - 63));
+};
+
+export function channelLabelsFromMask(mask: number | null, channelCount: number): string[] {
+  const labels: string[] = [];
+  if (mask) {
+    SPEAKER_POSITIONS.forEach((position, bit) => {
+      if (mask & (1 << bit)) labels.push(position);
+    });
+  } else if (DEFAULT_CHANNEL_LABELS[channelCount]) {
+    labels.push(...DEFAULT_CHANNEL_LABELS[channelCount]);
+  }
+
+  // Channels beyond the mask have no defined position.
+  return Array.from({ length: channelCount }, (_, index) => labels[index] ?? `Ch${index + 1}`);
+}
+
+const readSample = (view: DataView, offset: number, layout: SampleLayout): number => {
+  const { bytesPerSample, littleEndian } = layout;
+  if (layout.encoding === "float") {
+    return bytesPerSample === 8 ? view.getFloat64(offset, littleEndian) : view.getFloat32(offset, littleEndian);
+  }
+
+  // Narrower samples are left-justified in their container, so reading the full width is exact.
+  switch (bytesPerSample) {
+    case 1:
+      return layout.unsigned8 ? (view.getUint8(offset) - 128) / 128 : view.getInt8(offset) / 128;
+    case 2:
+      return view.getInt16(offset, littleEndian) / 32768;
+    case 3: {
+      const b0 = view.getUint8(offset);
+      const b1 = view.getUint8(offset + 1);
+      const b2 = view.getUint8(offset + 2);
+      const value = littleEndian ? b0 | (b1 << 8) | (b2 << 16) : b2 | (b1 << 8) | (b0 << 16);
+      return ((value << 8) >> 8) / 8388608;
+    }
+    case 4:
+      return view.getInt32(offset, littleEndian) / 2147483648;
+    default:
+      throw new Error(`Unsupported sample width: ${bytesPerSample * 8} bits`);
+  }
+};
+
+const PLATFORM_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Typed-array view over the interleaved samples for the common 16-bit and float
+ * formats in platform byte order; null when they need per-sample `DataView` reads.
+ */
+const typedSamples = (
+  view: DataView,
+  dataOffset: number,
+  sampleCount: number,
+  layout: SampleLayout
+): Int16Array | Float32Array | Float64Array | null => {
+  const { bytesPerSample, encoding, littleEndian } = layout;
+  if (littleEndian !== PLATFORM_LITTLE_ENDIAN) return null;
+
+  const start = view.byteOffset + dataOffset;
+  const byteLength = sampleCount * bytesPerSample;
+  // Typed views need an aligned offset; odd chunk layouts cost one copy of the data.
+  const aligned = start % bytesPerSample === 0;
+  const buffer = aligned ? view.buffer : view.buffer.slice(start, start + byteLength);
+  const offset = aligned ? start : 0;
+
+  if (encoding === "float") {
+    if (bytesPerSample === 4) return new Float32Array(buffer, offset, sampleCount);
+    if (bytesPerSample === 8) return new Float64Array(buffer, offset, sampleCount);
+    return null;
+  }
+  return bytesPerSample === 2 ? new Int16Array(buffer, offset, sampleCount) : null;
+};
+
+const deinterleave = (
+  view: DataView,
+  dataOffset: number,
+  dataLength: number,
+  layout: SampleLayout
+): Float32Array[] => {
+  const frameSize = layout.bytesPerSample * layout.channelCount;
+  const available = Math.min(dataLength, view.byteLength - dataOffset);
+  const length = frameSize > 0 ? Math.floor(available / frameSize) : 0;
+  const channels = Array.from({ length: layout.channelCount }, () => new Float32Array(length));
+
+  const samples = typedSamples(view, dataOffset, length * layout.channelCount, layout);
+  if (samples) {
+    const scale = layout.encoding === "float" ? 1 : 1 / 32768;
+    channels.forEach((data, channel) => {
+      for (let frame = 0, index = channel; frame < length; frame += 1, index += layout.channelCount) {
+        data[frame] = samples[index] * scale;
+      }
+    });
+    return channels;
+  }
+
+  for (let frame = 0; frame < length; frame += 1) {
+    const frameOffset = dataOffset + frame * frameSize;
+    for (let channel = 0; channel < layout.channelCount; channel += 1) {
+      channels[channel][frame] = readSample(view, frameOffset + channel * layout.bytesPerSample, layout);
+    }
+  }
+
+  return channels;
+};
+
+const readBext = (view: DataView, body: number): BroadcastExtension => ({
+  description: readAscii(view, body, 256),
+  originator: readAscii(view, body + 256, 32),
+  originatorReference: readAscii(view, body + 288, 32),
+  originationDate: readAscii(view, body + 320, 10),
+  originationTime: readAscii(view, body + 330, 8),
+  timeReference: readUint64(view, body + 338)
+});
+
+const decodeWav = (view: DataView, container: "wav" | "rf64"): DecodedPcm => {
+  let format: Omit<PcmFormat, "bext"> | null = null;
+  let layout: SampleLayout | null = null;
+  let bext: BroadcastExtension | null = null;
+  let rf64DataSize: number | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "ds64") {
+      rf64DataSize = readUint64(view, body + 8);
+    } else if (id === "bext" && size >= 346) {
+      bext = readBext(view, body);
+    } else if (id === "fmt ") {
+      let formatTag = view.getUint16(body, true);
+      const channelCount = view.getUint16(body + 2, true);
+      const containerBits = view.getUint16(body + 14, true);
+      let bitDepth = containerBits;
+      let channelMask: number | null = null;
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        bitDepth = view.getUint16(body + 18, true) || containerBits;
+        channelMask = view.getUint32(body + 20, true);
+        // The sub-format GUID starts with the real format tag.
+        formatTag = view.getUint16(body + 24, true);
+      }
+      if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new Error(`Unsupported WAV format tag 0x${formatTag.toString(16)}`);
+      }
+
+      const encoding: PcmEncoding = formatTag === WAVE_FORMAT_IEEE_FLOAT ? "float" : "pcm";
+      format = {
+        container,
+        encoding,
+        sampleRate: view.getUint32(body + 4, true),
+        bitDepth,
+        channelCount,
+        channelMask,
+        channelLabels: channelLabelsFromMask(channelMask, channelCount)
+      };
+      layout = {
+        channelCount,
+        bytesPerSample: Math.ceil(containerBits / 8),
+        encoding,
+        littleEndian: true,
+        unsigned8: true
+      };
+    } else if (id === "data") {
+      if (!format || !layout) {
+        throw new Error("WAV data chunk appears before its format chunk");
+      }
+      if (size === RF64_SIZE_PLACEHOLDER && rf64DataSize !== null) {
+        size = rf64DataSize;
+      }
+      const channels = deinterleave(view, body, size, layout);
+      return { ...format, bext, length: channels[0]?.length ?? 0, channels };
+    }
+
+    // Chunks are padded to an even size.
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+};
+
+const decodeAiff = (view: DataView, container: "aiff" | "aifc"): DecodedPcm => {
+  let format: Omit<PcmFormat, "bext"> | null = null;
+  let layout: SampleLayout | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+
+    if (id === "COMM") {
+      const channelCount = view.getUint16(body);
+      let bitDepth = view.getUint16(body + 6);
+      let encoding: Pick<SampleLayout, "encoding" | "littleEndian"> = { encoding: "pcm", littleEndian: false };
+      if (container === "aifc") {
+        const compression = fourCC(view, body + 18);
+        const known = AIFC_ENCODINGS[compression];
+        if (!known) {
+          throw new Error(`Unsupported AIFC compression ${compression}`);
+        }
+        encoding = known;
+        bitDepth = known.bits ?? bitDepth;
+      }
+
+      format = {
+        container,
+        encoding: encoding.encoding,
+        sampleRate: readExtended(view, body + 8),
+        bitDepth,
+        channelCount,
+        channelMask: null,
+        channelLabels: channelLabelsFromMask(null, channelCount)
+      };
+      layout = {
+        channelCount,
+        bytesPerSample: Math.ceil(bitDepth / 8),
+        encoding: encoding.encoding,
+        littleEndian: encoding.littleEndian,
+        unsigned8: false
+      };
+    } else if (id === "SSND") {
+      if (!format || !layout) {
+        throw new Error("AIFF sound data appears before its COMM chunk");
+      }
+      const dataOffset = view.getUint32(body);
+      const channels = deinterleave(view, body + 8 + dataOffset, size - 8 - dataOffset, layout);
+      return { ...format, bext: null, length: channels[0]?.length ?? 0, channels };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("AIFF file has no SSND chunk");
+};
+
+/** Container the bytes claim to be, or null when they need a general-purpose decoder. */
+export function detectPcmContainer(bytes: Uint8Array): PcmContainer | null {
+  if (bytes.byteLength < 12) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const riff = fourCC(view, 0);
+  const form = fourCC(view, 8);
+
+  if (riff === "RIFF" && form === "WAVE") return "wav";
+  if ((riff === "RF64" || riff === "BW64") && form === "WAVE") return "rf64";
+  if (riff === "FORM" && form === "AIFF") return "aiff";
+  if (riff === "FORM" && form === "AIFC") return "aifc";
+  return null;
+}
+
+/** Decodes uncompressed WAV, RF64, BWF, AIFF and AIFC without relying on Web Audio. */
+export function decodePcm(bytes: Uint8Array): DecodedPcm {
+  const container = detectPcmContainer(bytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (container) {
+    case "wav":
+    case "rf64":
+      return decodeWav(view, container);
+    case "aiff":
+    case "aifc":
+      return decodeAiff(view, container);
+    default:
+      throw new Error("Only uncompressed WAV, RF64, AIFF and AIFC files are supported");
+  }
+}
+
+export function describePcmFormat(format: PcmFormat): string {
+  const container = format.bext ? "BWF" : format.container.toUpperCase();
+  const encoding = format.encoding === "float" ? `${format.bitDepth}-bit float` : `${format.bitDepth}-bit PCM`;
+  const layout = layoutFromLabels(format.channelLabels)?.label ?? `${format.channelCount} ch`;
+  return `${container} · ${encoding} · ${layout}`;
+}
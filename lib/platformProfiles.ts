@@ -0,0 +1,105 @@
+import type { LoudnessMetrics } from "./loudnessTypes";
+
+/**
+ * How a platform treats tracks quieter than its target:
+ * - "none": only turns loud tracks down.
+ * - "headroom": turns quiet tracks up until the true peak reaches the ceiling.
+ * - "limiter": applies the full boost and limits peaks at the ceiling.
+ * - "full": applies the full boost with no peak protection.
+ */
+export type BoostPolicy = "none" | "headroom" | "limiter" | "full";
+
+export interface PlatformProfile {
+  id: string;
+  label: string;
+  targetLufs: number;
+  boost: BoostPolicy;
+  /** True-peak ceiling for "headroom" and "limiter" boosts. */
+  ceilingDbtp: number;
+}
+
+// Published defaults at the time of writing; platforms change these without notice.
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  { id: "spotify", label: "Spotify (Normal)", targetLufs: -14, boost: "headroom", ceilingDbtp: -1 },
+  { id: "spotifyLoud", label: "Spotify (Loud)", targetLufs: -11, boost: "limiter", ceilingDbtp: -1 },
+  // Sound Check only raises quiet tracks as far as their peak headroom allows.
+  { id: "appleMusic", label: "Apple Music", targetLufs: -16, boost: "headroom", ceilingDbtp: 0 },
+  { id: "youtube", label: "YouTube", targetLufs: -14, boost: "none", ceilingDbtp: 0 },
+  { id: "tidal", label: "Tidal", targetLufs: -14, boost: "none", ceilingDbtp: 0 },
+  { id: "deezer", label: "Deezer", targetLufs: -15, boost: "none", ceilingDbtp: 0 },
+  { id: "amazonMusic", label: "Amazon Music", targetLufs: -14, boost: "none", ceilingDbtp: 0 }
+];
+
+export const findPlatformProfile = (id: string) => PLATFORM_PROFILES.find((profile) => profile.id === id) ?? null;
+
+export interface PlatformGain {
+  /** Gain the platform applies; positive values boost. */
+  gainDb: number;
+  /** True peak after the gain, before any platform limiter. */
+  truePeakDb: number | null;
+  /** The boost was reduced to respect the platform's ceiling. */
+  headroomLimited: boolean;
+  /** Peak reduction a "limiter" platform would apply on top of the gain. */
+  limiterDb: number;
+  /** The boost pushes true peak above 0 dBTP with nothing to catch it. */
+  clips: boolean;
+  /**
+   * Gain a preview can apply without a limiter: a "limiter" boost is held at the
+   * true-peak ceiling so playback doesn't clip where the platform would limit.
+   */
+  previewGainDb: number;
+}
+
+export function computePlatformGain(
+  metrics: Pick<LoudnessMetrics, "lufsIntegrated" | "truePeakDb">,
+  profile: PlatformProfile
+): PlatformGain | null {
+  const { lufsIntegrated, truePeakDb } = metrics;
+  if (lufsIntegrated === null || !Number.isFinite(lufsIntegrated)) {
+    return null;
+  }
+
+  const peak = truePeakDb !== null && Number.isFinite(truePeakDb) ? truePeakDb : null;
+  let gainDb = profile.targetLufs - lufsIntegrated;
+  let headroomLimited = false;
+
+  if (gainDb > 0) {
+    if (profile.boost === "none") {
+      gainDb = 0;
+    } else if (profile.boost === "headroom" && peak !== null) {
+      const headroom = Math.max(0, profile.ceilingDbtp - peak);
+      if (gainDb > headroom) {
+        gainDb = headroom;
+        headroomLimited = true;
+      }
+    }
+  }
+
+  const boostedPeak = peak === null ? null : peak + gainDb;
+  const limiterDb =
+    profile.boost === "limiter" && gainDb > 0 && boostedPeak !== null
+      ? Math.max(0, boostedPeak - profile.ceilingDbtp)
+      : 0;
+
+  return {
+    gainDb,
+    truePeakDb: boostedPeak,
+    headroomLimited,
+    limiterDb,
+    previewGainDb: gainDb - limiterDb,
+    clips: profile.boost === "full" && gainDb > 0 && boostedPeak !== null && boostedPeak > 0
+  };
+}
+
+export function describePlatformWarning(gain: PlatformGain): string | null {
+  if (gain.clips && gain.truePeakDb !== null) {
+    return `Boost clips at ${gain.truePeakDb > 0 ? "+" : ""}${gain.truePeakDb.toFixed(1)} dBTP`;
+  }
+  if (gain.limiterDb > 0) {
+    return `Limiter takes ${gain.limiterDb.toFixed(1)} dB off peaks`;
+  }
+  if (gain.headroomLimited) {
+    return "Boost held back by true-peak headroom";
+  }
+  return null;
+}
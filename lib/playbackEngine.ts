@@ -0,0 +1,332 @@
+export interface PlaybackLoop {
+  start: number;
+  end: number;
+}
+
+export interface PlaybackEngine {
+  isPlaying: () => boolean;
+  /** Timeline position in seconds, loop applied. */
+  position: () => number;
+  /** Longest track end on the timeline, alignment shifts applied. */
+  duration: () => number;
+  /** Adds, replaces or (with `null`) removes a track; playing tracks stay in sync. */
+  setBuffer: (trackId: string, buffer: AudioBuffer | null) => void;
+  /** Seconds each track's buffer is shifted so its content lines up with the reference. */
+  setShifts: (shifts: Record<string, number>) => void;
+  setLoop: (loop: PlaybackLoop | null) => void;
+  /** The track's level, owned by the caller; it persists across seeks and restarts. */
+  gain: (trackId: string) => AudioParam | null;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (position: number) => void;
+  /** Seeks while dragging; restarts are throttled so audio follows the pointer in short faded grains. */
+  scrub: (position: number) => void;
+  /** Applies the last scrub position right away instead of waiting for the throttle. */
+  endScrub: () => void;
+  onPosition: (listener: (position: number) => void) => () => void;
+  onEnded: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+interface TrackNodes {
+  buffer: AudioBuffer;
+  shift: number;
+  /** Dips to silence around restarts so seeks and pauses don't click. */
+  fade: GainNode;
+  level: GainNode;
+  source: AudioBufferSourceNode | null;
+}
+
+// Long enough to hide the splice, short enough that a seek still feels immediate.
+const FADE_SECONDS = 0.008;
+// Scheduling headroom so every source is queued before the shared start time arrives.
+const START_LEAD_SECONDS = 0.02;
+const SCRUB_INTERVAL_MS = 60;
+// Keeps a source from starting on its very last samples, which some engines drop.
+const END_GUARD_SECONDS = 0.005;
+
+const loopedPosition = (elapsed: number, loop: PlaybackLoop | null) => {
+  if (!loop || elapsed < loop.end) return elapsed;
+  return loop.start + ((elapsed - loop.start) % (loop.end - loop.start));
+};
+
+/**
+ * Persistent per-track graph (source → fade → level → output). Only the
+ * one-shot buffer sources are replaced on a restart, and every track's source
+ * is started at the same context time, so tracks stay sample-aligned.
+ */
+export function createPlaybackEngine(context: AudioContext, output: AudioNode): PlaybackEngine {
+  const tracks: Record<string, TrackNodes> = {};
+  const positionListeners: ((position: number) => void)[] = [];
+  const endedListeners: (() => void)[] = [];
+  let loop: PlaybackLoop | null = null;
+  let playing = false;
+  // Context time at which timeline position 0 would have played.
+  let anchor = 0;
+  // Context time the current sources start; the position holds still until then.
+  let startAt = 0;
+  let pausedAt = 0;
+  let frame: number | null = null;
+  let lastScrubAt = 0;
+  let pendingScrub: number | null = null;
+  let scrubTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const duration = () =>
+    Object.keys(tracks).reduce(
+      (longest, id) => Math.max(longest, tracks[id].buffer.duration - tracks[id].shift),
+      0
+    );
+
+  // The part of the loop every track has content for. Each source then loops the same
+  // timeline range, so their periods match and they never drift apart across wraps.
+  const playableLoop = (): PlaybackLoop | null => {
+    if (!loop) return null;
+    const ids = Object.keys(tracks);
+    const start = ids.reduce((latest, id) => Math.max(latest, -tracks[id].shift), loop.start);
+    const end = ids.reduce(
+      (earliest, id) => Math.min(earliest, tracks[id].buffer.duration - tracks[id].shift),
+      loop.end
+    );
+    return end > start ? { start, end } : null;
+  };
+
+  const position = () =>
+    playing ? loopedPosition(Math.max(context.currentTime, startAt) - anchor, playableLoop()) : pausedAt;
+
+  const emitPosition = (value: number) => positionListeners.forEach((listener) => listener(value));
+
+  const fadeTo = (nodes: TrackNodes, value: number, at: number) => {
+    const { gain } = nodes.fade;
+    gain.cancelScheduledValues(context.currentTime);
+    gain.setValueAtTime(gain.value, context.currentTime);
+    gain.linearRampToValueAtTime(value, at);
+  };
+
+  const stopSource = (nodes: TrackNodes, at: number) => {
+    const { source } = nodes;
+    if (!source) return;
+    nodes.source = null;
+    source.onended = () => source.disconnect();
+    try {
+      source.stop(at);
+    } catch (error) {
+      console.warn("Source stop warning", error);
+    }
+  };
+
+  const startSource = (nodes: TrackNodes, offset: number, when: number, activeLoop: PlaybackLoop | null) => {
+    const { buffer, shift } = nodes;
+    const maxOffset = Math.max(0, buffer.duration - END_GUARD_SECONDS);
+    const trackPosition = offset + shift;
+    if (trackPosition > maxOffset && !activeLoop) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    if (activeLoop) {
+      // Every source loops the same timeline range, shifted into its own buffer time.
+      source.loop = true;
+      source.loopStart = Math.max(0, Math.min(activeLoop.start + shift, buffer.duration));
+      source.loopEnd = Math.max(source.loopStart, Math.min(activeLoop.end + shift, buffer.duration));
+    }
+    source.connect(nodes.fade);
+    nodes.source = source;
+
+    // A negative position means this track's content starts later on the timeline.
+    if (trackPosition < 0) {
+      source.start(when - trackPosition, 0);
+    } else {
+      source.start(when, Math.min(trackPosition, maxOffset));
+    }
+  };
+
+  const tick = () => {
+    frame = null;
+    if (!playing) return;
+
+    const elapsed = Math.max(context.currentTime, startAt) - anchor;
+    const end = duration();
+    const activeLoop = playableLoop();
+    if (!activeLoop && end && elapsed >= end) {
+      emitPosition(end);
+      stop(0);
+      endedListeners.forEach((listener) => listener());
+      return;
+    }
+
+    emitPosition(loopedPosition(elapsed, activeLoop));
+    frame = requestAnimationFrame(tick);
+  };
+
+  const stop = (nextPosition: number) => {
+    const fadeEnd = context.currentTime + FADE_SECONDS;
+    Object.keys(tracks).forEach((id) => {
+      fadeTo(tracks[id], 0, fadeEnd);
+      stopSource(tracks[id], fadeEnd);
+    });
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    playing = false;
+    pausedAt = nextPosition;
+    emitPosition(nextPosition);
+  };
+
+  // Fades out whatever is playing, then starts every track together from `offset`.
+  const restart = (offset: number) => {
+    const ids = Object.keys(tracks);
+    if (ids.length === 0) return;
+
+    const activeLoop = playableLoop();
+    if (activeLoop && offset >= activeLoop.end) {
+      offset = activeLoop.start;
+    }
+
+    const now = context.currentTime;
+    const when = now + (playing ? FADE_SECONDS : START_LEAD_SECONDS);
+    ids.forEach((id) => {
+      const nodes = tracks[id];
+      stopSource(nodes, when);
+      fadeTo(nodes, 0, when);
+      nodes.fade.gain.linearRampToValueAtTime(1, when + FADE_SECONDS);
+      startSource(nodes, offset, when, activeLoop);
+    });
+
+    anchor = when - offset;
+    startAt = when;
+    playing = true;
+    emitPosition(offset);
+    if (frame === null) {
+      frame = requestAnimationFrame(tick);
+    }
+  };
+
+  const clearScrub = () => {
+    if (scrubTimer !== null) {
+      clearTimeout(scrubTimer);
+      scrubTimer = null;
+    }
+    pendingScrub = null;
+  };
+
+  const seek = (target: number) => {
+    clearScrub();
+    const clamped = Math.max(0, Math.min(target, duration() || target));
+    if (playing) {
+      restart(clamped);
+    } else {
+      pausedAt = clamped;
+      emitPosition(clamped);
+    }
+  };
+
+  const flushScrub = () => {
+    scrubTimer = null;
+    if (pendingScrub === null) return;
+    const target = pendingScrub;
+    pendingScrub = null;
+    lastScrubAt = Date.now();
+    seek(target);
+  };
+
+  return {
+    isPlaying: () => playing,
+    position,
+    duration,
+    setBuffer: (trackId, buffer) => {
+      const existing = tracks[trackId];
+      if (existing) {
+        stopSource(existing, context.currentTime);
+        existing.level.disconnect();
+        delete tracks[trackId];
+      }
+      if (buffer) {
+        const fade = context.createGain();
+        const level = context.createGain();
+        fade.gain.value = 0;
+        // Silent until the caller sets the track's level.
+        level.gain.value = 0;
+        fade.connect(level);
+        level.connect(output);
+        tracks[trackId] = { buffer, shift: existing?.shift ?? 0, fade, level, source: null };
+      }
+      if (playing) {
+        restart(position());
+      }
+    },
+    setShifts: (shifts) => {
+      const changed = Object.keys(tracks).filter((id) => (shifts[id] ?? 0) !== tracks[id].shift);
+      if (changed.length === 0) return;
+      const current = position();
+      changed.forEach((id) => {
+        tracks[id].shift = shifts[id] ?? 0;
+      });
+      if (playing) {
+        restart(current);
+      }
+    },
+    setLoop: (next) => {
+      if (next?.start === loop?.start && next?.end === loop?.end) return;
+      // Read with the old loop points so the playhead doesn't jump.
+      const current = position();
+      loop = next ? { start: next.start, end: next.end } : null;
+      if (playing) {
+        restart(current);
+      }
+    },
+    gain: (trackId) => tracks[trackId]?.level.gain ?? null,
+    play: async () => {
+      if (playing || Object.keys(tracks).length === 0) return;
+      await context.resume();
+      if (!playing) {
+        restart(pausedAt);
+      }
+    },
+    pause: () => {
+      clearScrub();
+      if (!playing) return;
+      const current = position();
+      stop(Math.max(0, Math.min(current, duration() || current)));
+    },
+    seek,
+    scrub: (target) => {
+      if (!playing) {
+        seek(target);
+        return;
+      }
+      pendingScrub = target;
+      emitPosition(target);
+      if (scrubTimer !== null) return;
+      const wait = Math.max(0, SCRUB_INTERVAL_MS - (Date.now() - lastScrubAt));
+      scrubTimer = setTimeout(flushScrub, wait);
+    },
+    endScrub: () => {
+      if (scrubTimer !== null) {
+        clearTimeout(scrubTimer);
+      }
+      flushScrub();
+    },
+    onPosition: (listener) => {
+      positionListeners.push(listener);
+      return () => {
+        positionListeners.splice(positionListeners.indexOf(listener), 1);
+      };
+    },
+    onEnded: (listener) => {
+      endedListeners.push(listener);
+      return () => {
+        endedListeners.splice(endedListeners.indexOf(listener), 1);
+      };
+    },
+    dispose: () => {
+      clearScrub();
+      if (playing) stop(0);
+      Object.keys(tracks).forEach((id) => {
+        tracks[id].level.disconnect();
+        delete tracks[id];
+      });
+      positionListeners.length = 0;
+      endedListeners.length = 0;
+    }
+  };
+}
@@ -0,0 +1,157 @@
+import { formatDb } from "./formatDb";
+import { formatTime } from "./formatTime";
+import type { LoudnessMetrics } from "./loudnessTypes";
+
+export interface ReportTrack {
+  slot: string;
+  label: string;
+  fileName: string | null;
+  sizeBytes: number | null;
+  durationSeconds: number | null;
+  sampleRate: number | null;
+  metrics: LoudnessMetrics;
+  /** Gain applied by loudness matching; negative values attenuate. */
+  autoTrimDb: number;
+  /** Gain from the card's fine trim slider. */
+  fineTrimDb: number | null;
+  /** Shift applied in playback, manual nudge included; null when never aligned. */
+  alignmentOffsetSeconds: number | null;
+}
+
+export interface ComparisonReport {
+  generatedAt: string;
+  matchStrategy: string | null;
+  globalVolume: number;
+  tracks: ReportTrack[];
+}
+
+const METRIC_COLUMNS: { key: keyof LoudnessMetrics; label: string; suffix: string }[] = [
+  { key: "lufsIntegrated", label: "Integrated", suffix: "LUFS" },
+  { key: "momentaryMaxLufs", label: "Momentary max", suffix: "LUFS" },
+  { key: "shortTermMaxLufs", label: "Short-term max", suffix: "LUFS" },
+  { key: "loudnessRange", label: "LRA", suffix: "LU" },
+  { key: "peakDb", label: "Sample peak", suffix: "dBFS" },
+  { key: "truePeakDb", label: "True peak", suffix: "dBTP" },
+  { key: "rmsDb", label: "RMS", suffix: "dBFS" },
+  { key: "aWeightedDb", label: "A-weighted", suffix: "dBFS" }
+];
+
+const round = (value: number | null, digits = 2) =>
+  value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+
+export function buildReportCsv(report: ComparisonReport): string {
+  const header = [
+    "Slot",
+    "File",
+    "Size (bytes)",
+    "Duration (s)",
+    "Sample rate (Hz)",
+    ...METRIC_COLUMNS.map((column) => `${column.label} (${column.suffix})`),
+    "True peak time (s)",
+    "Clips",
+    "True-peak overs",
+    "Auto trim (dB)",
+    "Fine trim (dB)",
+    "Alignment offset (s)",
+    "Match strategy",
+    "Generated at"
+  ];
+
+  const rows = report.tracks.map((track) => [
+    track.slot,
+    track.fileName,
+    track.sizeBytes,
+    round(track.durationSeconds, 3),
+    track.sampleRate,
+    ...METRIC_COLUMNS.map((column) => round(track.metrics[column.key] as number | null)),
+    round(track.metrics.truePeakTime, 3),
+    track.metrics.clipCount,
+    track.metrics.overCount,
+    round(track.autoTrimDb),
+    round(track.fineTrimDb),
+    round(track.alignmentOffsetSeconds, 6),
+    report.matchStrategy,
+    report.generatedAt
+  ]);
+
+  const escape = (value: string | number | null) => {
+    if (value === null) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [header, ...rows].map((row) => row.map(escape).join(",")).join("\n") + "\n";
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatGain = (value: number | null) =>
+  value === null ? "--" : `${value > 0 ? "+" : ""}${value.toFixed(1)} dB`;
+
+/** Standalone page with inline styles only, so it prints and archives without the app. */
+export function buildReportHtml(report: ComparisonReport): string {
+  const columns = report.tracks
+    .map((track) => `<th>${escapeHtml(track.label)}<br /><small>${escapeHtml(track.fileName ?? "--")}</small></th>`)
+    .join("");
+
+  const row = (label: string, values: string[]) =>
+    `<tr><th scope="row">${escapeHtml(label)}</th>${values.map((value) => `<td>${escapeHtml(value)}</td>`).join("")}</tr>`;
+
+  const rows = [
+    row("Duration", report.tracks.map((track) => formatTime(track.durationSeconds))),
+    row("Sample rate", report.tracks.map((track) => (track.sampleRate ? `${track.sampleRate} Hz` : "--"))),
+    row(
+      "File size",
+      report.tracks.map((track) => (track.sizeBytes ? `${(track.sizeBytes / (1024 * 1024)).toFixed(2)} MB` : "--"))
+    ),
+    ...METRIC_COLUMNS.map((column) =>
+      row(
+        column.label,
+        report.tracks.map((track) => formatDb(track.metrics[column.key] as number | null, column.suffix))
+      )
+    ),
+    row("Clips", report.tracks.map((track) => String(track.metrics.clipCount))),
+    row("True-peak overs", report.tracks.map((track) => String(track.metrics.overCount))),
+    row("Auto trim", report.tracks.map((track) => formatGain(track.autoTrimDb))),
+    row("Fine trim", report.tracks.map((track) => formatGain(track.fineTrimDb))),
+    row(
+      "Offset",
+      report.tracks.map((track) =>
+        track.alignmentOffsetSeconds === null ? "--" : `${(track.alignmentOffsetSeconds * 1000).toFixed(2)} ms`
+      )
+    )
+  ].join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Comparison report ${escapeHtml(report.generatedAt)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 1.4rem; margin: 0 0 4px; }
+  p { margin: 0 0 16px; color: #475569; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; vertical-align: top; }
+  thead th { background: #f1f5f9; }
+  tbody th { font-weight: 600; white-space: nowrap; }
+  small { color: #64748b; font-weight: normal; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Compare Tracks report</h1>
+<p>Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())} · Match strategy: ${escapeHtml(
+    report.matchStrategy ?? "none"
+  )} · Global volume ${Math.round(report.globalVolume * 100)}%</p>
+<table>
+<thead><tr><th></th>${columns}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
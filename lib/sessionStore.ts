@@ -0,0 +1,164 @@
+const DB_NAME = "compare-tracks";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const BLOBS_STORE = "blobs";
+
+export interface SessionRecord<TSnapshot> {
+  id: string;
+  name: string;
+  savedAt: number;
+  /** Slot ids that have an audio blob stored alongside the snapshot. */
+  fileIds: string[];
+  fileNames: Record<string, string>;
+  bytes: number;
+  snapshot: TSnapshot;
+}
+
+export type SessionSummary = Omit<SessionRecord<unknown>, "snapshot">;
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+interface StoredBlob {
+  key: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser."));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: "key" });
+          blobs.createIndex("sessionId", "sessionId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+};
+
+const blobKey = (sessionId: string, fileId: string) => `${sessionId}:${fileId}`;
+
+const deleteBlobs = async (store: IDBObjectStore, sessionId: string) => {
+  const keys = await requestToPromise(store.index("sessionId").getAllKeys(sessionId));
+  keys.forEach((key) => store.delete(key));
+};
+
+const summarize = ({ snapshot: _snapshot, ...summary }: SessionRecord<unknown>): SessionSummary => summary;
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, "readonly");
+  const records = await requestToPromise(
+    transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord<unknown>[]>
+  );
+  return records.map(summarize).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** Saves (or overwrites, when `id` is given) a session and replaces its audio blobs. */
+export async function saveSession<TSnapshot>(
+  name: string,
+  snapshot: TSnapshot,
+  files: Record<string, File | Blob>,
+  id = `session-${Date.now().toString(36)}`
+): Promise<SessionSummary> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, BLOBS_STORE], "readwrite");
+  const blobs = transaction.objectStore(BLOBS_STORE);
+  await deleteBlobs(blobs, id);
+
+  const fileIds = Object.keys(files);
+  const fileNames: Record<string, string> = {};
+  let bytes = 0;
+  fileIds.forEach((fileId) => {
+    const blob = files[fileId];
+    fileNames[fileId] = blob instanceof File ? blob.name : fileId;
+    bytes += blob.size;
+    const entry: StoredBlob = { key: blobKey(id, fileId), sessionId: id, blob };
+    blobs.put(entry);
+  });
+
+  const record: SessionRecord<TSnapshot> = { id, name, savedAt: Date.now(), fileIds, fileNames, bytes, snapshot };
+  transaction.objectStore(SESSIONS_STORE).put(record);
+  await transactionDone(transaction);
+
+  // Best effort: ask the browser not to evict sessions under storage pressure.
+  void navigator.storage?.persist?.().catch(() => false);
+  return summarize(record as SessionRecord<unknown>);
+}
+
+export async function loadSession<TSnapshot>(
+  id: string
+): Promise<{ record: SessionRecord<TSnapshot>; files: Record<string, File> }> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, BLOBS_STORE], "readonly");
+  const record = await requestToPromise(
+    transaction.objectStore(SESSIONS_STORE).get(id) as IDBRequest<SessionRecord<TSnapshot> | undefined>
+  );
+  if (!record) {
+    throw new Error("That session no longer exists.");
+  }
+
+  const stored = await requestToPromise(
+    transaction.objectStore(BLOBS_STORE).index("sessionId").getAll(id) as IDBRequest<StoredBlob[]>
+  );
+  const files: Record<string, File> = {};
+  stored.forEach(({ key, blob }) => {
+    const fileId = key.slice(id.length + 1);
+    const name = record.fileNames[fileId] ?? fileId;
+    files[fileId] = blob instanceof File ? blob : new File([blob], name, { type: blob.type });
+  });
+
+  return { record, files };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, BLOBS_STORE], "readwrite");
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  await deleteBlobs(transaction.objectStore(BLOBS_STORE), id);
+  await transactionDone(transaction);
+}
+
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,124 @@
+import { OctaveSmoothing, SpectrumCurve } from "./loudnessTypes";
+
+const DEFAULT_FFT_SIZE = 8192;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+// Output grid resolution; finer than either smoothing width so curves stay smooth.
+const POINTS_PER_OCTAVE = 24;
+const FLOOR_DB = -150;
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array) {
+  const size = re.length;
+
+  for (let i = 1, j = 0; i < size; i += 1) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k += 1) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Welch average: Hann-windowed frames with 50% overlap, power averaged per bin.
+ * One-sided power, scaled so a full-scale sine's peak bin reads 0 dB.
+ */
+export function computeAveragePower(samples: Float32Array, fftSize = DEFAULT_FFT_SIZE): Float64Array {
+  const bins = fftSize / 2 + 1;
+  const power = new Float64Array(bins);
+  const window = new Float64Array(fftSize);
+  let windowSum = 0;
+  for (let i = 0; i < fftSize; i += 1) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+    windowSum += window[i];
+  }
+
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const hop = fftSize / 2;
+  let frames = 0;
+
+  // Short regions still get one zero-padded frame.
+  for (let start = 0; frames === 0 || start + fftSize <= samples.length; start += hop) {
+    for (let i = 0; i < fftSize; i += 1) {
+      re[i] = (samples[start + i] ?? 0) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let bin = 0; bin < bins; bin += 1) {
+      power[bin] += re[bin] * re[bin] + im[bin] * im[bin];
+    }
+    frames += 1;
+  }
+
+  const scale = 4 / (windowSum * windowSum * frames);
+  for (let bin = 0; bin < bins; bin += 1) {
+    power[bin] *= scale;
+  }
+  return power;
+}
+
+/** Averages power over a 1/N-octave band around each log-spaced grid point. */
+export function smoothSpectrum(
+  power: Float64Array,
+  sampleRate: number,
+  smoothing: OctaveSmoothing
+): SpectrumCurve {
+  const binWidth = sampleRate / (2 * (power.length - 1));
+  const top = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const count = Math.max(1, Math.floor(Math.log2(top / MIN_FREQUENCY) * POINTS_PER_OCTAVE) + 1);
+  const frequencies = new Float32Array(count);
+  const levelsDb = new Float32Array(count);
+  const halfBand = Math.pow(2, 1 / (2 * smoothing));
+
+  for (let point = 0; point < count; point += 1) {
+    const center = MIN_FREQUENCY * Math.pow(2, point / POINTS_PER_OCTAVE);
+    const first = Math.max(1, Math.floor(center / halfBand / binWidth));
+    const last = Math.min(power.length - 1, Math.max(first, Math.ceil((center * halfBand) / binWidth)));
+    let sum = 0;
+    for (let bin = first; bin <= last; bin += 1) {
+      sum += power[bin];
+    }
+    const mean = sum / (last - first + 1);
+    frequencies[point] = center;
+    levelsDb[point] = mean > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(mean)) : FLOOR_DB;
+  }
+
+  return { frequencies, levelsDb };
+}
+
+export function computeSpectrum(
+  samples: Float32Array,
+  sampleRate: number,
+  smoothing: OctaveSmoothing
+): SpectrumCurve {
+  return smoothSpectrum(computeAveragePower(samples), sampleRate, smoothing);
+}
@@ -0,0 +1,87 @@
+export type SwitchStyle = "instant" | "crossfade" | "beat" | "bar";
+
+export interface SwitchSettings {
+  style: SwitchStyle;
+  crossfadeMs: number;
+  bpm: number;
+}
+
+export const SWITCH_STYLES: { id: SwitchStyle; label: string }[] = [
+  { id: "instant", label: "Instant" },
+  { id: "crossfade", label: "Crossfade" },
+  { id: "beat", label: "Next beat" },
+  { id: "bar", label: "Next bar" }
+];
+
+export const MIN_CROSSFADE_MS = 5;
+export const MAX_CROSSFADE_MS = 500;
+export const BEATS_PER_BAR = 4;
+export const DEFAULT_SWITCH_SETTINGS: SwitchSettings = { style: "crossfade", crossfadeMs: 20, bpm: 120 };
+
+// Time constant for non-switch level changes (trim, fine volume, global volume).
+const LEVEL_SMOOTHING_SECONDS = 0.01;
+const CURVE_POINTS = 64;
+const EPSILON = 1e-5;
+
+export const clampCrossfadeMs = (value: number) =>
+  Math.max(MIN_CROSSFADE_MS, Math.min(MAX_CROSSFADE_MS, Number.isFinite(value) ? value : MIN_CROSSFADE_MS));
+
+/** Seconds from `position` to the next beat or bar boundary at `bpm`, counted from timeline zero. */
+export function secondsToNextBoundary(position: number, bpm: number, unit: "beat" | "bar"): number {
+  if (!(bpm > 0)) return 0;
+  const period = (60 / bpm) * (unit === "bar" ? BEATS_PER_BAR : 1);
+  const next = Math.ceil((position + EPSILON) / period) * period;
+  return Math.max(0, next - position);
+}
+
+// Sine/cosine halves keep summed power constant while one track fades out and the other in.
+const equalPowerCurve = (from: number, to: number): Float32Array => {
+  const curve = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i += 1) {
+    const phase = (i / (CURVE_POINTS - 1)) * (Math.PI / 2);
+    curve[i] = from * Math.cos(phase) + to * Math.sin(phase);
+  }
+  return curve;
+};
+
+const isSilent = (value: number) => Math.abs(value) < EPSILON;
+
+/**
+ * Moves a track gain to `target`. Focus switches (to or from silence) follow the
+ * chosen style starting at `switchAt`; other level changes glide immediately.
+ */
+export function scheduleGainChange(
+  context: BaseAudioContext,
+  param: AudioParam,
+  target: number,
+  settings: SwitchSettings,
+  switchAt = context.currentTime
+) {
+  const now = context.currentTime;
+  const from = param.value;
+  const isSwitch = isSilent(from) !== isSilent(target);
+
+  if (!isSwitch) {
+    param.cancelScheduledValues(now);
+    param.setTargetAtTime(target, now, LEVEL_SMOOTHING_SECONDS);
+    return;
+  }
+
+  const start = Math.max(now, switchAt);
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(from, now);
+
+  if (settings.style === "instant") {
+    param.setValueAtTime(target, start);
+    return;
+  }
+
+  const duration = clampCrossfadeMs(settings.crossfadeMs) / 1000;
+  try {
+    // Nudged past the hold event, which some engines treat as an overlapping curve.
+    param.setValueCurveAtTime(equalPowerCurve(from, target), start + 1e-4, duration);
+  } catch (error) {
+    console.warn("Falling back to a linear crossfade", error);
+    param.linearRampToValueAtTime(target, start + duration);
+  }
+}
@@ -0,0 +1,70 @@
+import { WaveformLevel, WaveformPeaks } from "./loudnessTypes";
+
+const BASE_SAMPLES_PER_PEAK = 256;
+const MIN_PEAKS_PER_LEVEL = 512;
+
+const halveLevel = (level: WaveformLevel): WaveformLevel => {
+  const count = Math.ceil(level.min.length / 2);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let i = 0; i < count; i += 1) {
+    const a = i * 2;
+    const b = Math.min(a + 1, level.min.length - 1);
+    min[i] = Math.min(level.min[a], level.min[b]);
+    max[i] = Math.max(level.max[a], level.max[b]);
+  }
+
+  return { samplesPerPeak: level.samplesPerPeak * 2, min, max };
+};
+
+/**
+ * Builds a min/max pyramid: the base level scans the audio once, every coarser
+ * level halves the previous one, so drawing at any zoom never touches samples.
+ */
+export function computeWaveformPeaks(
+  channels: Float32Array[],
+  length: number,
+  sampleRate: number
+): WaveformPeaks {
+  const count = Math.max(1, Math.ceil(length / BASE_SAMPLES_PER_PEAK));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let peak = 0; peak < count; peak += 1) {
+    const start = peak * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(length, start + BASE_SAMPLES_PER_PEAK);
+    let low = 0;
+    let high = 0;
+    for (let channel = 0; channel < channels.length; channel += 1) {
+      const data = channels[channel];
+      for (let i = start; i < end; i += 1) {
+        const sample = data[i] ?? 0;
+        if (sample < low) low = sample;
+        if (sample > high) high = sample;
+      }
+    }
+    min[peak] = low;
+    max[peak] = high;
+  }
+
+  const levels: WaveformLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max }];
+  while (levels[levels.length - 1].min.length > MIN_PEAKS_PER_LEVEL) {
+    levels.push(halveLevel(levels[levels.length - 1]));
+  }
+
+  return { sampleRate, length, levels };
+}
+
+export function selectWaveformLevel(peaks: WaveformPeaks, samplesPerPixel: number): WaveformLevel {
+  let selected = peaks.levels[0];
+  for (const level of peaks.levels) {
+    if (level.samplesPerPeak > samplesPerPixel) break;
+    selected = level;
+  }
+  return selected;
+}
+
+export function waveformTransferables(peaks: WaveformPeaks): ArrayBuffer[] {
+  return peaks.levels.flatMap((level) => [level.min.buffer as ArrayBuffer, level.max.buffer as ArrayBuffer]);
+}
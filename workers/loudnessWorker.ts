@@ -1,7 +1,13 @@
 /// <reference lib="webworker" />
 
-import { computeLoudnessMetrics, type LoudnessWorkerPayload } from "@/lib/loudnessCore";
-import { LoudnessMetrics } from "@/lib/loudnessTypes";
+import { detectAlignmentOffset } from "@/lib/alignmentCore";
+import type { LoudnessWorkerPayload, ProgressJob } from "@/lib/loudnessCore";
+import { analyzeLoudnessJob } from "@/lib/loudnessJob";
+import { AlignmentResult, LoudnessAnalysis, OctaveSmoothing, SpectrumCurve } from "@/lib/loudnessTypes";
+import { computeNullResidual, type NullTestResult } from "@/lib/nullTest";
+import { decodePcm, type DecodedPcm } from "@/lib/pcmDecoder";
+import { computeSpectrum } from "@/lib/spectrumCore";
+import { waveformTransferables } from "@/lib/waveformCore";
 
 type AnalyzeMessage = {
   type: "analyze";
@@ -9,62 +15,234 @@ type AnalyzeMessage = {
   payload: WorkerPayload;
 };
 
+type AlignMessage = {
+  type: "align";
+  id: number;
+  payload: AlignPayload;
+};
+
+type SpectrumMessage = {
+  type: "spectrum";
+  id: number;
+  payload: SpectrumPayload;
+};
+
+type NullMessage = {
+  type: "null";
+  id: number;
+  payload: NullPayload;
+};
+
+type DecodeMessage = {
+  type: "decode";
+  id: number;
+  payload: DecodePayload;
+};
+
+type CancelMessage = {
+  type: "cancel";
+  id: number;
+};
+
+type WorkerMessage = AnalyzeMessage | AlignMessage | SpectrumMessage | NullMessage | DecodeMessage | CancelMessage;
+
 interface WorkerPayload {
   weightedBuffers: ArrayBuffer[];
   originalBuffers: ArrayBuffer[];
   channelWeights: number[];
   blockSize: number;
   stepSize: number;
+  shortTermSize: number;
   totalSamples: number;
   originalLength: number;
+  sampleRate: number;
+  weightedSampleRate: number;
   absoluteGate: number;
   relativeGateOffset: number;
   lufsOffset: number;
+  overThresholdDb: number;
+}
+
+interface AlignPayload {
+  referenceEnvelope: ArrayBuffer;
+  referenceRate: number;
+  targetEnvelope: ArrayBuffer;
+  targetRate: number;
+}
+
+interface SpectrumPayload {
+  samples: ArrayBuffer;
+  sampleRate: number;
+  smoothing: OctaveSmoothing;
+}
+
+interface NullPayload {
+  sourceBuffers: ArrayBuffer[];
+  otherBuffers: ArrayBuffer[];
+  sampleRate: number;
+  lagSamples: number;
+  sourceGain: number;
+  otherGain: number;
+}
+
+interface DecodePayload {
+  bytes: ArrayBuffer;
 }
 
 type WorkerResponse =
-  | { type: "result"; id: number; result: LoudnessMetrics }
+  | { type: "result"; id: number; result: LoudnessAnalysis }
+  | { type: "progress"; id: number; progress: number }
+  | { type: "aligned"; id: number; result: AlignmentResult }
+  | { type: "spectrum"; id: number; result: SpectrumCurve }
+  | { type: "null"; id: number; result: NullTestResult }
+  | { type: "decoded"; id: number; result: DecodedPcm }
   | { type: "error"; id: number; error: string };
 
-const handleAnalyze = (message: AnalyzeMessage): WorkerResponse => {
-  const { payload, id } = message;
+// Analysis runs in slices so progress can be posted and cancel messages get through.
+const SLICE_MS = 50;
+const runningJobs = new Map<number, ProgressJob<LoudnessAnalysis>>();
 
-  const weightedChannels = payload.weightedBuffers.map(
-    (buffer) => new Float32Array(buffer)
-  );
-  const originalChannels = payload.originalBuffers.map(
-    (buffer) => new Float32Array(buffer)
-  );
+const runSlice = (id: number) => {
+  const job = runningJobs.get(id);
+  if (!job) {
+    return;
+  }
+
+  const sliceEnd = performance.now() + SLICE_MS;
+  let progress = 0;
+  try {
+    while (performance.now() < sliceEnd) {
+      const step = job.next();
+      if (step.done) {
+        runningJobs.delete(id);
+        postResponse({ type: "result", id, result: step.value });
+        return;
+      }
+      progress = step.value;
+    }
+  } catch (error) {
+    runningJobs.delete(id);
+    postError(id, error);
+    return;
+  }
 
-  const result = computeLoudnessMetrics({
-    weightedChannels,
-    originalChannels,
+  postResponse({ type: "progress", id, progress });
+  setTimeout(() => runSlice(id), 0);
+};
+
+const startAnalysis = (message: AnalyzeMessage) => {
+  const { payload, id } = message;
+
+  const loudnessPayload: LoudnessWorkerPayload = {
+    weightedChannels: payload.weightedBuffers.map((buffer) => new Float32Array(buffer)),
+    originalChannels: payload.originalBuffers.map((buffer) => new Float32Array(buffer)),
     channelWeights: payload.channelWeights,
     blockSize: payload.blockSize,
     stepSize: payload.stepSize,
+    shortTermSize: payload.shortTermSize,
     totalSamples: payload.totalSamples,
     originalLength: payload.originalLength,
+    sampleRate: payload.sampleRate,
+    weightedSampleRate: payload.weightedSampleRate,
     absoluteGate: payload.absoluteGate,
     relativeGateOffset: payload.relativeGateOffset,
-    lufsOffset: payload.lufsOffset
-  } satisfies LoudnessWorkerPayload);
+    lufsOffset: payload.lufsOffset,
+    overThresholdDb: payload.overThresholdDb
+  };
 
-  return { type: "result", id, result };
+  runningJobs.set(id, analyzeLoudnessJob(loudnessPayload));
+  runSlice(id);
+};
+
+const handleAlign = (message: AlignMessage): WorkerResponse => {
+  const { payload, id } = message;
+
+  const result = detectAlignmentOffset(
+    { data: new Float32Array(payload.referenceEnvelope), rate: payload.referenceRate },
+    { data: new Float32Array(payload.targetEnvelope), rate: payload.targetRate }
+  );
+
+  return { type: "aligned", id, result };
+};
+
+const handleSpectrum = (message: SpectrumMessage): WorkerResponse => {
+  const { payload, id } = message;
+  const result = computeSpectrum(new Float32Array(payload.samples), payload.sampleRate, payload.smoothing);
+  return { type: "spectrum", id, result };
+};
+
+const handleNull = (message: NullMessage): WorkerResponse => {
+  const { payload, id } = message;
+  const result = computeNullResidual(
+    payload.sourceBuffers.map((buffer) => new Float32Array(buffer)),
+    payload.otherBuffers.map((buffer) => new Float32Array(buffer)),
+    payload.sampleRate,
+    { lagSamples: payload.lagSamples, sourceGain: payload.sourceGain, otherGain: payload.otherGain }
+  );
+  return { type: "null", id, result };
 };
 
-self.onmessage = (event: MessageEvent<AnalyzeMessage>) => {
+const handleDecode = (message: DecodeMessage): WorkerResponse => {
+  const { payload, id } = message;
+  return { type: "decoded", id, result: decodePcm(new Uint8Array(payload.bytes)) };
+};
+
+const handleMessage = (message: AlignMessage | SpectrumMessage | NullMessage | DecodeMessage): WorkerResponse => {
+  switch (message.type) {
+    case "align":
+      return handleAlign(message);
+    case "spectrum":
+      return handleSpectrum(message);
+    case "null":
+      return handleNull(message);
+    case "decode":
+      return handleDecode(message);
+  }
+};
+
+function postResponse(response: WorkerResponse) {
+  if (response.type === "result") {
+    const { envelope, waveform, steps } = response.result;
+    const transferables: ArrayBuffer[] = [];
+    if (envelope) transferables.push(envelope.data.buffer as ArrayBuffer);
+    if (steps) transferables.push(steps.meanSquares.buffer as ArrayBuffer);
+    if (waveform) transferables.push(...waveformTransferables(waveform));
+    self.postMessage(response, transferables);
+  } else if (response.type === "spectrum") {
+    const { frequencies, levelsDb } = response.result;
+    self.postMessage(response, [frequencies.buffer as ArrayBuffer, levelsDb.buffer as ArrayBuffer]);
+  } else if (response.type === "decoded") {
+    self.postMessage(response, response.result.channels.map((channel) => channel.buffer as ArrayBuffer));
+  } else {
+    self.postMessage(response);
+  }
+}
+
+function postError(id: number, error: unknown) {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  postResponse({ type: "error", id, error: message });
+}
+
+self.onmessage = (event: MessageEvent<WorkerMessage>) => {
   const data = event.data;
-  if (!data || data.type !== "analyze") {
+  if (!data || !["analyze", "align", "spectrum", "null", "decode", "cancel"].includes(data.type)) {
+    return;
+  }
+
+  if (data.type === "cancel") {
+    // The caller has already settled its promise; just stop spending time on it.
+    runningJobs.delete(data.id);
     return;
   }
 
   try {
-    const response = handleAnalyze(data);
-    self.postMessage(response);
+    if (data.type === "analyze") {
+      startAnalysis(data);
+    } else {
+      postResponse(handleMessage(data));
+    }
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    const fallback: WorkerResponse = { type: "error", id: data.id, error: message };
-    self.postMessage(fallback);
+    postError(data.id, error);
   }
 };
 